@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+'use strict';
+
+const { runCLI } = require('../dist/node');
+
+runCLI(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,230 @@
+import { mapWithConcurrency } from './concurrency';
+import { CollectedNotesClient, Markdown, Note, NoteVisibility } from './index';
+
+/**
+ * The notes a bulk operation applies to, every field set must match.
+ * @export
+ */
+export type BulkSelector = {
+  /**
+   * Only the notes with this visibility.
+   * @type {NoteVisibility}
+   */
+  visibility?: NoteVisibility;
+  /**
+   * Only the notes found with this search term.
+   * @type {string}
+   */
+  search?: string;
+  /**
+   * Only the notes this function returns `true` for.
+   * @type {(note: Note) => boolean}
+   */
+  filter?: (note: Note) => boolean;
+};
+
+/**
+ * What a bulk operation does with every selected note.
+ *
+ * - `set-visibility` changes the visibility of the notes
+ * - `delete` deletes the notes, permanently
+ * - `rewrite` replaces the body of the notes with the one returned by the
+ *   function
+ * @export
+ */
+export type BulkAction =
+  | { type: 'set-visibility'; visibility: NoteVisibility }
+  | { type: 'delete' }
+  | { type: 'rewrite'; rewrite: (note: Note) => Markdown | Promise<Markdown> };
+
+/**
+ * The result of a bulk operation on a single note.
+ *
+ * The status is `planned` on a dry run, `skipped` if the action doesn't change
+ * the note, and `succeeded` or `failed` otherwise.
+ * @export
+ */
+export type BulkNoteResult = {
+  /**
+   * The note as it was before the operation.
+   * @type {Note}
+   */
+  note: Note;
+  /**
+   * What happened with the note.
+   * @type {('planned' | 'skipped' | 'succeeded' | 'failed')}
+   */
+  status: 'planned' | 'skipped' | 'succeeded' | 'failed';
+  /**
+   * The changes planned or applied to the note, `null` when it's deleted or
+   * the changes couldn't be planned.
+   * @type {({ body: Markdown; visibility: NoteVisibility } | null)}
+   */
+  changes: { body: Markdown; visibility: NoteVisibility } | null;
+  /**
+   * The note returned by the API after updating it.
+   * @type {Note}
+   */
+  updated?: Note;
+  /**
+   * The error thrown while applying the action.
+   * @type {Error}
+   */
+  error?: Error;
+};
+
+/**
+ * The progress of a bulk operation, reported after every note.
+ * @export
+ */
+export type BulkProgress = {
+  /**
+   * The number of notes processed.
+   * @type {number}
+   */
+  done: number;
+  /**
+   * The number of notes selected.
+   * @type {number}
+   */
+  total: number;
+  /**
+   * The result of the last note processed.
+   * @type {BulkNoteResult}
+   */
+  result: BulkNoteResult;
+};
+
+/**
+ * The options of a bulk operation.
+ * @export
+ */
+export type BulkOptions = {
+  /**
+   * Only plan the changes without applying them, by default is `false`.
+   * @type {boolean}
+   */
+  dryRun?: boolean;
+  /**
+   * The maximum number of notes changed at the same time, by default is `4`.
+   * @type {number}
+   */
+  concurrency?: number;
+  /**
+   * Called after every note is processed.
+   * @type {(progress: BulkProgress) => void}
+   */
+  onProgress?: (progress: BulkProgress) => void;
+};
+
+/**
+ * The result of a bulk operation.
+ * @export
+ */
+export type BulkResult = {
+  /**
+   * The result of every selected note.
+   * @type {BulkNoteResult[]}
+   */
+  results: BulkNoteResult[];
+  /**
+   * The number of notes with each status.
+   * @type {Record<BulkNoteResult['status'], number>}
+   */
+  summary: Record<BulkNoteResult['status'], number>;
+};
+
+async function selectNotes(
+  client: CollectedNotesClient,
+  sitePath: string,
+  { visibility, search, filter }: BulkSelector
+): Promise<Note[]> {
+  let notes: Note[];
+  if (search === undefined) {
+    notes = await client.allNotes(sitePath, { visibility });
+  } else {
+    notes = [];
+    const results = client.iterateSearch(sitePath, search, { visibility });
+    for await (const note of results) notes.push(note);
+  }
+  return filter ? notes.filter(filter) : notes;
+}
+
+async function planChanges(
+  note: Note,
+  action: BulkAction
+): Promise<BulkNoteResult['changes']> {
+  switch (action.type) {
+    case 'delete':
+      return null;
+    case 'set-visibility':
+      return { body: note.body, visibility: action.visibility };
+    case 'rewrite':
+      return { body: await action.rewrite(note), visibility: note.visibility };
+  }
+}
+
+/**
+ * Apply the same action to every note of a site matching a selector, e.g. to
+ * change the visibility of many notes or delete every note found with a
+ * search.
+ *
+ * Every note is processed even if some of them fail, check the `status` of
+ * each result. On a dry run the rewrite function is still called to plan the
+ * new bodies, but nothing is changed.
+ *
+ * @export
+ * @function
+ * @async
+ * @param {CollectedNotesClient} client - The client used to read and change the notes
+ * @param {string} sitePath - The path of the site (e.g. `blog`)
+ * @param {BulkSelector} selector - The notes the action applies to
+ * @param {BulkAction} action - What to do with every note
+ * @param {BulkOptions} [options] - If it's a dry run, the concurrency and the progress callback
+ * @returns {Promise<BulkResult>} - The result of every note and a summary
+ */
+export async function bulk(
+  client: CollectedNotesClient,
+  sitePath: string,
+  selector: BulkSelector,
+  action: BulkAction,
+  { dryRun = false, concurrency = 4, onProgress }: BulkOptions = {}
+): Promise<BulkResult> {
+  const notes = await selectNotes(client, sitePath, selector);
+  let done = 0;
+
+  const results = await mapWithConcurrency(notes, concurrency, async note => {
+    let result: BulkNoteResult;
+    let changes: BulkNoteResult['changes'] = null;
+    try {
+      changes = await planChanges(note, action);
+      const isUnchanged =
+        changes !== null &&
+        changes.body === note.body &&
+        changes.visibility === note.visibility;
+
+      if (isUnchanged) {
+        result = { note, status: 'skipped', changes };
+      } else if (dryRun) {
+        result = { note, status: 'planned', changes };
+      } else if (changes === null) {
+        await client.destroy(sitePath, note.path);
+        result = { note, status: 'succeeded', changes };
+      } else {
+        const updated = await client.update(sitePath, note.path, changes);
+        result = { note, status: 'succeeded', changes, updated };
+      }
+    } catch (error) {
+      result = { note, status: 'failed', changes, error: error as Error };
+    }
+
+    done++;
+    onProgress?.({ done, total: notes.length, result });
+    return result;
+  });
+
+  const summary = { planned: 0, skipped: 0, succeeded: 0, failed: 0 };
+  for (const { status } of results) summary[status]++;
+
+  return { results, summary };
+}
@@ -0,0 +1,61 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { CacheEntry, CacheStore } from './index';
+
+/**
+ * Create a store saving every response as a JSON file inside a directory.
+ *
+ * @export
+ * @function
+ * @param {string} dir - The directory where the responses are saved
+ * @returns {CacheStore} - The store
+ */
+export function createFileStore(dir: string): CacheStore {
+  function fileOf(key: string): string {
+    const name = createHash('sha1')
+      .update(key)
+      .digest('hex');
+    return join(dir, `${name}.json`);
+  }
+
+  async function readEntry(file: string): Promise<CacheEntry | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  return {
+    get(key) {
+      return readEntry(fileOf(key));
+    },
+    async set(key, entry) {
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(fileOf(key), JSON.stringify(entry), 'utf8');
+    },
+    async delete(key) {
+      await fs.unlink(fileOf(key)).catch(error => {
+        if (error.code !== 'ENOENT') throw error;
+      });
+    },
+    async keys() {
+      let names: string[];
+      try {
+        names = await fs.readdir(dir);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+      const keys: string[] = [];
+      for (const name of names) {
+        if (!name.endsWith('.json')) continue;
+        const entry = await readEntry(join(dir, name));
+        if (entry) keys.push(entry.url);
+      }
+      return keys;
+    },
+  };
+}
@@ -0,0 +1,311 @@
+/**
+ * A response stored in the cache together with its validators.
+ * @export
+ */
+export type CacheEntry = {
+  /**
+   * The URL of the request.
+   * @type {string}
+   */
+  url: string;
+  /**
+   * The status of the response.
+   * @type {number}
+   */
+  status: number;
+  /**
+   * The headers of the response.
+   * @type {Record<string, string>}
+   */
+  headers: Record<string, string>;
+  /**
+   * The body of the response.
+   * @type {string}
+   */
+  body: string;
+  /**
+   * When the response was stored or last revalidated, in milliseconds since
+   * the epoch.
+   * @type {number}
+   */
+  storedAt: number;
+  /**
+   * The `ETag` header of the response, sent back as `If-None-Match`.
+   * @type {string}
+   */
+  etag?: string;
+  /**
+   * The `Last-Modified` header of the response, sent back as
+   * `If-Modified-Since`.
+   * @type {string}
+   */
+  lastModified?: string;
+};
+
+/**
+ * Where the cached responses are stored, every method can be sync or async.
+ * @export
+ */
+export type CacheStore = {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  keys(): string[] | Promise<string[]>;
+};
+
+/**
+ * The options to configure the cache.
+ * @export
+ */
+export type CacheOptions = {
+  /**
+   * Where the responses are stored, by default an in-memory store with up to
+   * 500 responses.
+   * @type {CacheStore}
+   */
+  store?: CacheStore;
+  /**
+   * The time in milliseconds a response is used without revalidating it, by
+   * default is `0` and every request is revalidated with a conditional
+   * request.
+   * @type {number}
+   */
+  ttl?: number;
+  /**
+   * The time in milliseconds, after the `ttl`, a stale response is still used
+   * while it's revalidated in the background, by default is `0`.
+   * @type {number}
+   */
+  staleWhileRevalidate?: number;
+};
+
+/**
+ * A cache of the responses of the API, pass it as the `cache` option of the
+ * client or the public functions.
+ * @export
+ */
+export type HTTPCache = {
+  /**
+   * Wrap a Fetch API implementation to use the cache on every `GET` request
+   * without an `Authorization` header.
+   */
+  wrap(fetcher: typeof fetch): typeof fetch;
+  /**
+   * Remove the cached responses of a note, or of every note if the note path
+   * is missing, and the pages of its site.
+   */
+  invalidate(sitePath: string, notePath?: string): Promise<void>;
+  /**
+   * Remove every cached response.
+   */
+  clear(): Promise<void>;
+};
+
+type ResponseConstructor = new (body: string, init: ResponseInit) => Response;
+
+function toResponse(
+  entry: CacheEntry,
+  ResponseClass: ResponseConstructor
+): Response {
+  return new ResponseClass(entry.body, {
+    status: entry.status,
+    headers: entry.headers,
+  });
+}
+
+// the headers as a plain object with lowercase names, without using the
+// global `Headers` which a polyfilled environment may not have
+function toHeaderRecord(headers: HeadersInit = {}): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (Array.isArray(headers)) {
+    for (const [key, value] of headers) record[key.toLowerCase()] = value;
+  } else if (typeof (headers as Headers).forEach === 'function') {
+    (headers as Headers).forEach((value, key) => {
+      record[key.toLowerCase()] = value;
+    });
+  } else {
+    const values = headers as Record<string, string>;
+    for (const key of Object.keys(values)) {
+      record[key.toLowerCase()] = values[key];
+    }
+  }
+  return record;
+}
+
+function isCacheable(init: RequestInit = {}): boolean {
+  const method = (init.method ?? 'GET').toUpperCase();
+  // responses of the private API belong to a user, never share them
+  return method === 'GET' && !('authorization' in toHeaderRecord(init.headers));
+}
+
+/**
+ * Create an in-memory store keeping the most recently used responses.
+ *
+ * @export
+ * @function
+ * @param {{ maxEntries?: number }} [options] - The maximum number of responses stored, by default is `500`
+ * @returns {CacheStore} - The store
+ */
+export function createMemoryStore({
+  maxEntries = 500,
+}: { maxEntries?: number } = {}): CacheStore {
+  // a Map iterates in insertion order, so the first key is the least recently
+  // used one
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+    set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value);
+      }
+    },
+    delete(key) {
+      entries.delete(key);
+    },
+    keys() {
+      return Array.from(entries.keys());
+    },
+  };
+}
+
+/**
+ * Create a cache of the responses of the public API.
+ *
+ * Every response is stored with its `ETag` and `Last-Modified` headers, and
+ * once it's older than the `ttl` the next request is sent with
+ * `If-None-Match` and `If-Modified-Since` so an unchanged response doesn't
+ * need to be downloaded again.
+ *
+ * @export
+ * @function
+ * @param {CacheOptions} [options] - The store, the ttl and the stale-while-revalidate time
+ * @returns {HTTPCache} - The cache
+ */
+export function createCache({
+  store = createMemoryStore(),
+  ttl = 0,
+  staleWhileRevalidate = 0,
+}: CacheOptions = {}): HTTPCache {
+  const revalidating = new Map<string, Promise<Response>>();
+  // the cached responses are built with the class of the responses of each
+  // fetch implementation, which may be a polyfill
+  const responseClasses = new WeakMap<typeof fetch, ResponseConstructor>();
+
+  function getResponseClass(
+    fetcher: typeof fetch
+  ): ResponseConstructor | undefined {
+    return (
+      responseClasses.get(fetcher) ??
+      (typeof Response === 'undefined' ? undefined : Response)
+    );
+  }
+
+  async function revalidate(
+    fetcher: typeof fetch,
+    url: string,
+    init: RequestInit,
+    entry?: CacheEntry
+  ): Promise<Response> {
+    const headers = toHeaderRecord(init.headers);
+    if (entry?.etag) headers['if-none-match'] = entry.etag;
+    if (entry?.lastModified) headers['if-modified-since'] = entry.lastModified;
+
+    const response = await fetcher(url, { ...init, headers });
+    const ResponseClass = response.constructor as ResponseConstructor;
+    responseClasses.set(fetcher, ResponseClass);
+
+    if (response.status === 304 && entry) {
+      const refreshed = { ...entry, storedAt: Date.now() };
+      await store.set(url, refreshed);
+      return toResponse(refreshed, ResponseClass);
+    }
+
+    if (!response.ok) return response;
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      responseHeaders[key] = value;
+    });
+    const fresh: CacheEntry = {
+      url,
+      status: response.status,
+      headers: responseHeaders,
+      body: await response.text(),
+      storedAt: Date.now(),
+      etag: response.headers.get('ETag') ?? undefined,
+      lastModified: response.headers.get('Last-Modified') ?? undefined,
+    };
+    await store.set(url, fresh);
+    return toResponse(fresh, ResponseClass);
+  }
+
+  function revalidateInBackground(
+    fetcher: typeof fetch,
+    url: string,
+    init: RequestInit,
+    entry: CacheEntry
+  ) {
+    if (revalidating.has(url)) return;
+    // the request that triggered it may be aborted, it shouldn't abort this
+    const promise = revalidate(fetcher, url, { ...init, signal: null }, entry);
+    revalidating.set(url, promise);
+    promise.catch(() => {}).then(() => revalidating.delete(url));
+  }
+
+  function wrap(fetcher: typeof fetch): typeof fetch {
+    return async function cachedFetch(input, init) {
+      if (typeof input !== 'string' || !isCacheable(init)) {
+        return await fetcher(input, init);
+      }
+      const url = input;
+
+      const entry = await store.get(url);
+      // without a class to build the response it's revalidated, the response
+      // of the fetch implementation gives one
+      const ResponseClass = getResponseClass(fetcher);
+      if (entry && ResponseClass) {
+        const age = Date.now() - entry.storedAt;
+        if (age < ttl) return toResponse(entry, ResponseClass);
+        if (age < ttl + staleWhileRevalidate) {
+          revalidateInBackground(fetcher, url, init ?? {}, entry);
+          return toResponse(entry, ResponseClass);
+        }
+      }
+
+      return await revalidate(fetcher, url, init ?? {}, entry);
+    };
+  }
+
+  async function invalidate(sitePath: string, notePath?: string) {
+    const notePrefix = notePath ? `/${sitePath}/${notePath}` : `/${sitePath}/`;
+    const keys = await store.keys();
+    for (const key of keys) {
+      const { pathname } = new URL(key);
+      const isSitePage = pathname.endsWith(`/${sitePath}.json`);
+      const isNote =
+        pathname.endsWith(`${notePrefix}.json`) ||
+        pathname.endsWith(`${notePrefix}.md`) ||
+        pathname.endsWith(`${notePrefix}.text`) ||
+        pathname.endsWith(`${notePrefix}/body`) ||
+        (!notePath && pathname.includes(notePrefix));
+      if (isSitePage || isNote) await store.delete(key);
+    }
+  }
+
+  async function clear() {
+    const keys = await store.keys();
+    for (const key of keys) await store.delete(key);
+  }
+
+  return { wrap, invalidate, clear };
+}
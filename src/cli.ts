@@ -0,0 +1,446 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import { homedir, tmpdir } from 'os';
+import { join } from 'path';
+import {
+  collectedNotes,
+  CollectedNotesClient,
+  Email,
+  FeedFormat,
+  Note,
+  NoteFormat,
+  NoteVisibility,
+  Site,
+} from './index';
+import { ClientOptions } from './request';
+
+/**
+ * The environment where the command-line tool runs, by default the one of the
+ * current process.
+ * @export
+ */
+export type CLIEnvironment = {
+  /**
+   * The environment variables, used to get the credentials and the editor.
+   * @type {Record<string, string | undefined>}
+   */
+  env?: Record<string, string | undefined>;
+  /**
+   * The stream used to read the body of a new note.
+   * @type {NodeJS.ReadableStream & { isTTY?: boolean }}
+   */
+  stdin?: NodeJS.ReadableStream & { isTTY?: boolean };
+  /**
+   * The stream where the results are written.
+   * @type {NodeJS.WritableStream}
+   */
+  stdout?: NodeJS.WritableStream;
+  /**
+   * The stream where the errors are written.
+   * @type {NodeJS.WritableStream}
+   */
+  stderr?: NodeJS.WritableStream;
+  /**
+   * The options of the client used to run the commands.
+   * @type {ClientOptions}
+   */
+  clientOptions?: ClientOptions;
+};
+
+type ParsedArgs = {
+  positionals: string[];
+  flags: Record<string, string | true>;
+};
+
+type Credentials = { email: Email; token: string };
+
+type Command<T = unknown> = {
+  usage: string;
+  run(
+    client: CollectedNotesClient,
+    args: ParsedArgs,
+    io: Required<CLIEnvironment>
+  ): Promise<T>;
+  print?(result: T): string;
+};
+
+// checks that `print` receives what `run` returns
+function defineCommand<T>(command: Command<T>): Command {
+  return command as Command;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+  }
+}
+
+const booleanFlags = ['json', 'help', 'all'];
+
+const visibilities: NoteVisibility[] = [
+  'private',
+  'public',
+  'public_unlisted',
+  'public_site',
+];
+
+function parseArgs(argv: string[]): ParsedArgs {
+  const positionals: string[] = [];
+  const flags: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      positionals.push(...argv.slice(i + 1));
+      break;
+    }
+    const flag = /^--([^=]+)(?:=(.*))?$/.exec(arg);
+    if (!flag) {
+      positionals.push(arg);
+      continue;
+    }
+    const [, name, value] = flag;
+    if (value !== undefined) {
+      flags[name] = value;
+    } else if (booleanFlags.includes(name)) {
+      flags[name] = true;
+    } else if (i + 1 < argv.length) {
+      flags[name] = argv[++i];
+    } else {
+      throw new UsageError(`Missing value for --${name}`);
+    }
+  }
+  return { positionals, flags };
+}
+
+function stringFlag(args: ParsedArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+function numberFlag(args: ParsedArgs, name: string): number | undefined {
+  const value = stringFlag(args, name);
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new UsageError(`Expected --${name} to be a positive integer`);
+  }
+  return number;
+}
+
+function oneOfFlag<T extends string>(
+  args: ParsedArgs,
+  name: string,
+  values: readonly T[]
+): T | undefined {
+  const value = stringFlag(args, name);
+  if (value === undefined) return undefined;
+  if (!values.includes(value as T)) {
+    throw new UsageError(
+      `Expected --${name} to be one of ${values.join(', ')}`
+    );
+  }
+  return value as T;
+}
+
+function positional(args: ParsedArgs, index: number, name: string): string {
+  const value = args.positionals[index];
+  if (value === undefined) throw new UsageError(`Missing <${name}>`);
+  return value;
+}
+
+async function readStream(stream: NodeJS.ReadableStream): Promise<string> {
+  let content = '';
+  stream.setEncoding('utf8');
+  for await (const chunk of stream) content += chunk;
+  return content;
+}
+
+/**
+ * Get the credentials from the `COLLECTED_NOTES_EMAIL` and
+ * `COLLECTED_NOTES_TOKEN` variables or, if they are not defined, from the
+ * JSON config file (`~/.collected-notes.json` by default).
+ */
+async function readCredentials(
+  args: ParsedArgs,
+  env: Record<string, string | undefined>
+): Promise<Credentials> {
+  const { COLLECTED_NOTES_EMAIL: email, COLLECTED_NOTES_TOKEN: token } = env;
+  if (email && token) return { email, token };
+
+  const configFile =
+    stringFlag(args, 'config') ??
+    env.COLLECTED_NOTES_CONFIG ??
+    join(env.HOME ?? homedir(), '.collected-notes.json');
+
+  let config: Partial<Credentials>;
+  try {
+    config = JSON.parse(await fs.readFile(configFile, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    config = {};
+  }
+
+  if (!config.email || !config.token) {
+    throw new UsageError(
+      'Missing credentials, set COLLECTED_NOTES_EMAIL and COLLECTED_NOTES_TOKEN ' +
+        `or add your email and token to ${configFile}`
+    );
+  }
+  return { email: config.email, token: config.token };
+}
+
+function printNotes(notes: Note[]): string {
+  return notes
+    .map(note => `${note.id}\t${note.visibility}\t${note.path}\t${note.title}`)
+    .join('\n');
+}
+
+function printNote(note: Note): string {
+  return `${note.id}\t${note.visibility}\t${note.path}\t${note.url}`;
+}
+
+function openEditor(editor: string, file: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // the editor may include arguments (e.g. `code --wait`)
+    const child = spawn(`${editor} "${file}"`, {
+      shell: true,
+      stdio: 'inherit',
+    });
+    child.on('error', reject);
+    child.on('exit', code => {
+      if (code === 0) resolve();
+      else reject(new Error(`The editor exited with code ${code}`));
+    });
+  });
+}
+
+const commands: Record<string, Command> = {
+  sites: defineCommand({
+    usage: 'sites',
+    run: client => client.sites(),
+    print: (sites: Site[]) =>
+      sites
+        .map(site => `${site.id}\t${site.site_path}\t${site.name}`)
+        .join('\n'),
+  }),
+  notes: defineCommand({
+    usage: 'notes <site> [--page <n> | --all] [--visibility <visibility>]',
+    async run(client, args) {
+      const sitePath = positional(args, 0, 'site');
+      const visibility = oneOfFlag(args, 'visibility', visibilities);
+      if (args.flags.all) {
+        return await client.allNotes(sitePath, { visibility });
+      }
+      const page = numberFlag(args, 'page');
+      return await client.latestNotes(sitePath, page, visibility);
+    },
+    print: printNotes,
+  }),
+  read: defineCommand({
+    usage: 'read <site> <note> [--format md|txt|json]',
+    async run(client, args) {
+      const sitePath = positional(args, 0, 'site');
+      const notePath = positional(args, 1, 'note');
+      const format: NoteFormat =
+        oneOfFlag(args, 'format', ['md', 'txt', 'json'] as const) ?? 'md';
+      if (format === 'json') return await client.read(sitePath, notePath);
+      if (format === 'txt') {
+        return await client.read(sitePath, notePath, 'txt');
+      }
+      return await client.read(sitePath, notePath, 'md');
+    },
+    print: (result: Note | string) =>
+      typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+  }),
+  create: defineCommand({
+    usage:
+      'create <site> [--file <path>] [--visibility <visibility>], reads the body from stdin without --file',
+    async run(client, args, io) {
+      const sitePath = positional(args, 0, 'site');
+      const visibility =
+        oneOfFlag(args, 'visibility', visibilities) ?? 'private';
+      const file = stringFlag(args, 'file');
+      if (!file && io.stdin.isTTY) {
+        throw new UsageError(
+          'Missing the body, use --file or pipe it to stdin'
+        );
+      }
+      const body = file
+        ? await fs.readFile(file, 'utf8')
+        : await readStream(io.stdin);
+      return await client.create({ body, visibility }, sitePath);
+    },
+    print: printNote,
+  }),
+  edit: defineCommand({
+    usage:
+      'edit <site> <note> [--visibility <visibility>], opens $EDITOR unless only the visibility is changed',
+    async run(client, args, io) {
+      const sitePath = positional(args, 0, 'site');
+      const notePath = positional(args, 1, 'note');
+      const visibility = oneOfFlag(args, 'visibility', visibilities);
+      const note = await client.read(sitePath, notePath);
+
+      let body = note.body;
+      if (!visibility) {
+        const editor = io.env.VISUAL || io.env.EDITOR || 'vi';
+        const dir = await fs.mkdtemp(join(tmpdir(), 'collected-notes-'));
+        // the path of the note comes from the API, it's kept out of the
+        // command run by the shell
+        const file = join(dir, 'note.md');
+        try {
+          await fs.writeFile(file, note.body, 'utf8');
+          await openEditor(editor, file);
+          body = await fs.readFile(file, 'utf8');
+        } finally {
+          await fs.unlink(file).catch(() => {});
+          await fs.rmdir(dir).catch(() => {});
+        }
+        if (body === note.body) return note;
+      }
+
+      return await client.update(sitePath, notePath, {
+        body,
+        visibility: visibility ?? note.visibility,
+      });
+    },
+    print: printNote,
+  }),
+  delete: defineCommand({
+    usage: 'delete <site> <note>',
+    async run(client, args) {
+      const sitePath = positional(args, 0, 'site');
+      const notePath = positional(args, 1, 'note');
+      await client.destroy(sitePath, notePath);
+      return { deleted: `${sitePath}/${notePath}` };
+    },
+    print: ({ deleted }: { deleted: string }) => `Deleted ${deleted}`,
+  }),
+  search: defineCommand({
+    usage:
+      'search <site> <term> [--page <n> | --all] [--visibility <visibility>]',
+    async run(client, args) {
+      const sitePath = positional(args, 0, 'site');
+      const term = args.positionals.slice(1).join(' ');
+      if (term === '') throw new UsageError('Missing <term>');
+      const visibility = oneOfFlag(args, 'visibility', visibilities);
+      if (args.flags.all) {
+        const notes: Note[] = [];
+        const results = client.iterateSearch(sitePath, term, { visibility });
+        for await (const note of results) notes.push(note);
+        return notes;
+      }
+      const page = numberFlag(args, 'page');
+      return await client.search(sitePath, term, page, visibility);
+    },
+    print: printNotes,
+  }),
+  reorder: defineCommand({
+    usage: 'reorder <site> <id...>',
+    async run(client, args) {
+      const sitePath = positional(args, 0, 'site');
+      const ids = args.positionals.slice(1).map(Number);
+      if (ids.length === 0) throw new UsageError('Missing <id...>');
+      if (ids.some(id => !Number.isInteger(id))) {
+        throw new UsageError('Expected the ids to be numbers');
+      }
+      return await client.reorder(sitePath, ids);
+    },
+    print: (ids: number[]) => ids.join('\n'),
+  }),
+  feed: defineCommand({
+    usage:
+      'feed <site> [--format json|xml|atom] [--visibility <visibility>] [--limit <n>] [--home-page-url <url>] [--feed-url <url>]',
+    async run(client, args) {
+      const sitePath = positional(args, 0, 'site');
+      const format: FeedFormat =
+        oneOfFlag(args, 'format', ['json', 'xml', 'atom'] as const) ?? 'json';
+      const visibility =
+        oneOfFlag(args, 'visibility', visibilities) ?? 'public_site';
+      const feedOptions = {
+        home_page_url:
+          stringFlag(args, 'home-page-url') ??
+          `https://collectednotes.com/${sitePath}/`,
+        feed_url: stringFlag(args, 'feed-url'),
+        limit: numberFlag(args, 'limit'),
+      };
+      if (format === 'json') {
+        return await client.feed(sitePath, visibility, feedOptions, 'json');
+      }
+      return await client.feed(sitePath, visibility, feedOptions, format);
+    },
+    print: (feed: unknown) =>
+      typeof feed === 'string' ? feed : JSON.stringify(feed, null, 2),
+  }),
+};
+
+function usage(): string {
+  return [
+    'Usage: collected-notes <command> [options]',
+    '',
+    'Commands:',
+    ...Object.keys(commands).map(name => `  ${commands[name].usage}`),
+    '',
+    'Options:',
+    '  --json             Print the result as JSON',
+    '  --config <path>    The config file with the credentials',
+    '  --help             Show this help',
+    '',
+    'The credentials are read from COLLECTED_NOTES_EMAIL and COLLECTED_NOTES_TOKEN,',
+    'or from the email and token of ~/.collected-notes.json.',
+  ].join('\n');
+}
+
+/**
+ * Run the `collected-notes` command-line tool.
+ *
+ * @export
+ * @function
+ * @async
+ * @param {string[]} argv - The arguments, without the node executable and the script
+ * @param {CLIEnvironment} [environment] - The environment variables and streams to use
+ * @returns {Promise<number>} - The exit code, `0` on success
+ */
+export async function runCLI(
+  argv: string[],
+  {
+    env = process.env,
+    stdin = process.stdin,
+    stdout = process.stdout,
+    stderr = process.stderr,
+    clientOptions = {},
+  }: CLIEnvironment = {}
+): Promise<number> {
+  const io = { env, stdin, stdout, stderr, clientOptions };
+  try {
+    const [name, ...rest] = argv;
+    const args = parseArgs(rest);
+    if (!name || name === '--help' || name === 'help' || args.flags.help) {
+      stdout.write(`${usage()}\n`);
+      return 0;
+    }
+
+    const command = commands[name];
+    if (!command) throw new UsageError(`Unknown command ${name}`);
+
+    const { email, token } = await readCredentials(args, env);
+    const client = collectedNotes(email, token, clientOptions);
+    const result = await command.run(client, args, io);
+
+    const output =
+      args.flags.json || !command.print
+        ? JSON.stringify(result, null, 2)
+        : command.print(result);
+    if (output !== '') stdout.write(`${output}\n`);
+    return 0;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      stderr.write(`${error.message}\n\n${usage()}\n`);
+      return 2;
+    }
+    stderr.write(`${(error as Error).message}\n`);
+    return 1;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Call an async function for every item of a list, running at most
+ * `concurrency` calls at the same time, and resolve with the results in the
+ * same order of the items.
+ *
+ * @function
+ * @async
+ * @param {T[]} items - The items to map
+ * @param {number} concurrency - The maximum number of calls running at the same time
+ * @param {(item: T, index: number) => Promise<R>} fn - The function to call for each item
+ * @returns {Promise<R[]>} - The results of every call
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  async function worker(): Promise<void> {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.max(1, Math.min(concurrency, items.length)); i++) {
+    workers.push(worker());
+  }
+  await Promise.all(workers);
+
+  return results;
+}
+
+/**
+ * Create a function to run async functions with at most `concurrency` of them
+ * running at the same time, the rest wait in a queue in the order they were
+ * called.
+ *
+ * @function
+ * @param {number} concurrency - The maximum number of functions running at the same time
+ * @returns {<R>(fn: () => Promise<R>) => Promise<R>} - Run a function when there is a free slot
+ */
+export function createLimiter(concurrency: number) {
+  const queue: (() => void)[] = [];
+  let running = 0;
+
+  function next() {
+    if (running >= Math.max(1, concurrency) || queue.length === 0) return;
+    running++;
+    (queue.shift() as () => void)();
+  }
+
+  return function limit<R>(fn: () => Promise<R>): Promise<R> {
+    return new Promise<R>((resolve, reject) => {
+      queue.push(() => {
+        Promise.resolve()
+          .then(fn)
+          .then(resolve, reject)
+          .then(() => {
+            running--;
+            next();
+          });
+      });
+      next();
+    });
+  };
+}
@@ -0,0 +1,366 @@
+/**
+ * The base error thrown when the Collected Notes API responds with a non-2xx
+ * status code.
+ *
+ * The errors created from an unsuccessful response extend this class, so you
+ * can use `error instanceof CollectedNotesError` to catch any API failure. The
+ * errors thrown without a response (`TimeoutError`, `InvalidWebhookError`,
+ * `SchemaValidationError`, `ConflictError`, `ReorderError` and
+ * `UnknownSiteError`) extend `Error` instead.
+ * @export
+ */
+export class CollectedNotesError extends Error {
+  /**
+   * The HTTP status code of the response.
+   * @type {number}
+   */
+  readonly status: number;
+  /**
+   * The URL of the request that failed.
+   * @type {string}
+   */
+  readonly url: string;
+  /**
+   * The HTTP method of the request that failed (e.g. `GET`).
+   * @type {string}
+   */
+  readonly method: string;
+  /**
+   * The body of the response, parsed as JSON when possible or as plain text
+   * otherwise.
+   * @type {unknown}
+   */
+  readonly body: unknown;
+
+  constructor(
+    message: string,
+    details: { status: number; url: string; method: string; body: unknown }
+  ) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.status = details.status;
+    this.url = details.url;
+    this.method = details.method;
+    this.body = details.body;
+  }
+}
+
+/**
+ * Thrown when the credentials are missing or invalid (401) or the user is not
+ * allowed to access the resource (403).
+ * @export
+ */
+export class AuthenticationError extends CollectedNotesError {}
+
+/**
+ * Thrown when the site, note or endpoint doesn't exist (404).
+ * @export
+ */
+export class NotFoundError extends CollectedNotesError {}
+
+/**
+ * Thrown when the API rejected the data sent (400 or 422), e.g. when creating
+ * a note with an invalid body.
+ * @export
+ */
+export class ValidationError extends CollectedNotesError {}
+
+/**
+ * Thrown when too many requests were sent to the API (429).
+ * @export
+ */
+export class RateLimitError extends CollectedNotesError {
+  /**
+   * The number of seconds to wait before retrying, as sent by the API in the
+   * `Retry-After` header, `null` if the header was not sent.
+   * @type {(number | null)}
+   */
+  readonly retryAfter: number | null;
+
+  constructor(
+    message: string,
+    details: {
+      status: number;
+      url: string;
+      method: string;
+      body: unknown;
+      retryAfter: number | null;
+    }
+  ) {
+    super(message, details);
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * Thrown when the API failed to process the request (5xx).
+ * @export
+ */
+export class ServerError extends CollectedNotesError {}
+
+async function parseErrorBody(response: Response): Promise<unknown> {
+  try {
+    const text = await response.text();
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Thrown when a request to the API takes longer than the configured timeout.
+ * @export
+ */
+export class TimeoutError extends Error {
+  /**
+   * The URL of the request that timed out.
+   * @type {string}
+   */
+  readonly url: string;
+  /**
+   * The HTTP method of the request that timed out (e.g. `GET`).
+   * @type {string}
+   */
+  readonly method: string;
+  /**
+   * The timeout of the request, in milliseconds.
+   * @type {number}
+   */
+  readonly timeout: number;
+
+  constructor(details: { url: string; method: string; timeout: number }) {
+    super(
+      `${details.method} ${details.url} timed out after ${details.timeout}ms`
+    );
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.url = details.url;
+    this.method = details.method;
+    this.timeout = details.timeout;
+  }
+}
+
+/**
+ * Thrown when a webhook payload is not valid JSON or doesn't match any of the
+ * events sent by Collected Notes.
+ * @export
+ */
+export class InvalidWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+  }
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return 'undefined';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'object' && value !== null) return 'an object';
+  return JSON.stringify(value);
+}
+
+/**
+ * Thrown when a value doesn't match the shape of the types of this library,
+ * e.g. when the API drops or renames a field of a note.
+ * @export
+ */
+export class SchemaValidationError extends Error {
+  /**
+   * The path of the field that failed (e.g. `note.user_id`).
+   * @type {string}
+   */
+  readonly path: string;
+  /**
+   * The description of the expected value (e.g. `a number`).
+   * @type {string}
+   */
+  readonly expected: string;
+  /**
+   * The value received in the field.
+   * @type {unknown}
+   */
+  readonly received: unknown;
+
+  constructor(details: { path: string; expected: string; received: unknown }) {
+    super(
+      `Expected \`${details.path}\` to be ${
+        details.expected
+      } but received ${describeValue(details.received)}`
+    );
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.path = details.path;
+    this.expected = details.expected;
+    this.received = details.received;
+  }
+}
+
+/**
+ * Parse the value of a `Retry-After` header as a number of seconds.
+ *
+ * @function
+ * @param {(string | null)} value - The value of the header, as seconds or as an HTTP date
+ * @returns {(number | null)} - The seconds to wait, `null` if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds;
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Create the error matching the status code of a failed response.
+ *
+ * @function
+ * @async
+ * @param {Response} response - The failed response
+ * @param {string} method - The HTTP method used in the request
+ * @param {string} url - The URL of the request
+ * @returns {Promise<CollectedNotesError>} - The error to throw
+ */
+export async function createError(
+  response: Response,
+  method: string,
+  url: string
+): Promise<CollectedNotesError> {
+  const details = {
+    status: response.status,
+    url,
+    method,
+    body: await parseErrorBody(response),
+  };
+  const message = `${method} ${url} failed with status ${response.status}`;
+
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new AuthenticationError(message, details);
+    case 404:
+      return new NotFoundError(message, details);
+    case 400:
+    case 422:
+      return new ValidationError(message, details);
+    case 429:
+      return new RateLimitError(message, {
+        ...details,
+        retryAfter: parseRetryAfter(response.headers.get('Retry-After')),
+      });
+  }
+
+  if (response.status >= 500) return new ServerError(message, details);
+  return new CollectedNotesError(message, details);
+}
+
+/**
+ * Thrown when a note changed since the date the caller last read it, to avoid
+ * overwriting the changes of someone else.
+ * @export
+ */
+export class ConflictError extends Error {
+  /**
+   * The path of the site of the note (e.g. `blog`).
+   * @type {string}
+   */
+  readonly sitePath: string;
+  /**
+   * The path of the note (e.g. `api`).
+   * @type {string}
+   */
+  readonly notePath: string;
+  /**
+   * The date the caller expected the note to be last updated.
+   * @type {string}
+   */
+  readonly expected: string;
+  /**
+   * The current date the note was last updated.
+   * @type {string}
+   */
+  readonly actual: string;
+
+  constructor(details: {
+    sitePath: string;
+    notePath: string;
+    expected: string;
+    actual: string;
+  }) {
+    super(
+      `The note ${details.sitePath}/${details.notePath} was updated at ${details.actual}, after ${details.expected}`
+    );
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.sitePath = details.sitePath;
+    this.notePath = details.notePath;
+    this.expected = details.expected;
+    this.actual = details.actual;
+  }
+}
+
+/**
+ * Thrown when the order of the notes returned by the API after reordering them
+ * doesn't match the order sent.
+ * @export
+ */
+export class ReorderError extends Error {
+  /**
+   * The IDs of the notes in the order sent.
+   * @type {number[]}
+   */
+  readonly expected: number[];
+  /**
+   * The IDs of the notes in the order returned by the API.
+   * @type {number[]}
+   */
+  readonly received: number[];
+
+  constructor(details: { expected: number[]; received: number[] }) {
+    super(
+      `Expected the notes to be reordered as ${details.expected.join(
+        ', '
+      )} but received ${details.received.join(', ')}`
+    );
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.expected = details.expected;
+    this.received = details.received;
+  }
+}
+
+/**
+ * Thrown when the `defaultSite` of the client is not one of the sites of the
+ * user.
+ * @export
+ */
+export class UnknownSiteError extends Error {
+  /**
+   * The path of the site configured (e.g. `blog`).
+   * @type {string}
+   */
+  readonly sitePath: string;
+  /**
+   * The paths of the sites of the user.
+   * @type {string[]}
+   */
+  readonly available: string[];
+
+  constructor(details: { sitePath: string; available: string[] }) {
+    super(
+      `The site ${
+        details.sitePath
+      } is not one of your sites: ${details.available.join(', ')}`
+    );
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = new.target.name;
+    this.sitePath = details.sitePath;
+    this.available = details.available;
+  }
+}
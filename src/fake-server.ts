@@ -0,0 +1,89 @@
+import { createServer } from 'http';
+import { createFakeAPI, FakeAPI, FakeFixtures } from './index';
+
+/**
+ * A local HTTP server answering with a fake Collected Notes API.
+ * @export
+ */
+export type FakeServer = {
+  /**
+   * The URL of the server, pass it as the `baseUrl` option of the client.
+   * @type {string}
+   */
+  url: string;
+  /**
+   * The fake API used by the server, to check its data and events.
+   * @type {FakeAPI}
+   */
+  api: FakeAPI;
+  /**
+   * Stop the server.
+   */
+  close(): Promise<void>;
+};
+
+/**
+ * Start a local HTTP server answering with a fake Collected Notes API, to
+ * test code that doesn't let you pass the `fetch` of the client.
+ *
+ * @export
+ * @function
+ * @async
+ * @param {FakeFixtures} [fixtures] - The initial user, sites and notes
+ * @param {{ port?: number }} [options] - The port of the server, by default a random free port
+ * @returns {Promise<FakeServer>} - The URL of the server, its fake API and a function to stop it
+ */
+export function startFakeServer(
+  fixtures: FakeFixtures = {},
+  { port = 0 }: { port?: number } = {}
+): Promise<FakeServer> {
+  const api = createFakeAPI(fixtures);
+  const server = createServer(async (req, res) => {
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      const body = Buffer.concat(chunks).toString('utf8');
+      const headers: Record<string, string> = {};
+      for (const key of Object.keys(req.headers)) {
+        const value = req.headers[key];
+        if (value !== undefined) headers[key] = String(value);
+      }
+
+      const response = await api.fetch(`http://localhost${req.url}`, {
+        method: req.method,
+        headers,
+        body: req.method === 'GET' || req.method === 'HEAD' ? undefined : body,
+      });
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        responseHeaders[key] = value;
+      });
+      res.writeHead(response.status, responseHeaders);
+      res.end(await response.text());
+    } catch {
+      // the request couldn't be read or the response written
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.write(JSON.stringify({ error: 'Internal server error' }));
+      }
+      res.end();
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address();
+      const actualPort =
+        typeof address === 'object' && address ? address.port : port;
+      resolve({
+        url: `http://127.0.0.1:${actualPort}`,
+        api,
+        close: () =>
+          new Promise<void>((resolveClose, rejectClose) =>
+            server.close(error => (error ? rejectClose(error) : resolveClose()))
+          ),
+      });
+    });
+  });
+}
@@ -0,0 +1,561 @@
+import { parseNoteBody } from './front-matter';
+import {
+  collectedNotes,
+  CollectedNotesClient,
+  Event,
+  HTML,
+  ID,
+  Link,
+  Markdown,
+  Note,
+  NoteVisibility,
+  Site,
+  User,
+} from './index';
+import { ClientOptions, DEFAULT_BASE_URL } from './request';
+import { escapeXML } from './xml';
+
+/**
+ * The initial data of a fake Collected Notes API, every field missing is
+ * filled with a default value.
+ * @export
+ */
+export type FakeFixtures = {
+  /**
+   * The user owning the sites, its email and the `token` are the credentials
+   * accepted by the private API.
+   * @type {Partial<User>}
+   */
+  user?: Partial<User>;
+  /**
+   * The token accepted by the private API, by default is `token`.
+   * @type {string}
+   */
+  token?: string;
+  /**
+   * The sites of the user, by default a single site with the path `test`.
+   * @type {(Partial<Site> & { site_path: string })[]}
+   */
+  sites?: (Partial<Site> & { site_path: string })[];
+  /**
+   * The notes of the sites, in order, added to the site with the given
+   * `site_path` or to the first site.
+   * @type {(Partial<Note> & { body: Markdown; site_path?: string })[]}
+   */
+  notes?: (Partial<Note> & { body: Markdown; site_path?: string })[];
+  /**
+   * The number of notes of each page, by default is `40`.
+   * @type {number}
+   */
+  pageSize?: number;
+  /**
+   * Where the events are sent when a note changes, a Fetch API handler (e.g.
+   * the one created with `createWebhookHandler`) or the URL of a server.
+   * @type {(string | ((request: Request) => Promise<Response>))}
+   */
+  webhook?: string | ((request: Request) => Promise<Response>);
+};
+
+/**
+ * An in-memory implementation of the Collected Notes API.
+ * @export
+ */
+export type FakeAPI = {
+  /**
+   * A Fetch API implementation answering the requests with the in-memory
+   * data, pass it as the `fetch` option of the client.
+   * @type {typeof fetch}
+   */
+  fetch: typeof fetch;
+  /**
+   * The credentials accepted by the private API.
+   * @type {{ email: string; token: string }}
+   */
+  credentials: { email: string; token: string };
+  /**
+   * Get a copy of the current notes, sorted by site and ordering.
+   */
+  notes(): Note[];
+  /**
+   * Get a copy of the current sites.
+   */
+  sites(): Site[];
+  /**
+   * Every event emitted, in order.
+   * @type {Event[]}
+   */
+  events: Event[];
+  /**
+   * Call a function with every event emitted, returns a function to stop.
+   */
+  onEvent(listener: (event: Event) => void): () => void;
+};
+
+function slugify(text: string): string {
+  const slug = text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return slug || 'note';
+}
+
+function describeBody(body: Markdown): { title: string; headline: string } {
+  const { content, title } = parseNoteBody(body);
+  const lines = content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+  const firstLine = lines[0] ?? '';
+  const headline =
+    lines.find(line => !line.startsWith('#') && line !== firstLine) ?? '';
+  return {
+    title: title ?? firstLine.replace(/^#+\s*/, ''),
+    headline: headline.slice(0, 140),
+  };
+}
+
+function renderInline(text: string): HTML {
+  return escapeXML(text).replace(
+    /\[([^\]]+)\]\(([^)\s]+)(?:\s+&quot;[^)]*&quot;)?\)/g,
+    '<a href="$2">$1</a>'
+  );
+}
+
+/**
+ * A small Markdown renderer, only headings, paragraphs and links, enough to
+ * test code using the HTML of the notes.
+ */
+function renderMarkdown(body: Markdown): HTML {
+  return parseNoteBody(body)
+    .content.split(/\r?\n\s*\r?\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => {
+      // a heading is a single line, the lines around it are paragraphs
+      const html: HTML[] = [];
+      let paragraph: string[] = [];
+      const flush = () => {
+        if (paragraph.length > 0) {
+          html.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+        }
+        paragraph = [];
+      };
+      for (const line of block.split(/\r?\n/)) {
+        const heading = /^(#{1,6})\s+(.*)$/.exec(line.trim());
+        if (!heading) {
+          paragraph.push(line);
+          continue;
+        }
+        flush();
+        const level = heading[1].length;
+        html.push(`<h${level}>${renderInline(heading[2])}</h${level}>`);
+      }
+      flush();
+      return html.join('\n');
+    })
+    .join('\n');
+}
+
+function extractLinks(note: Note, domains: string[]): Link[] {
+  const pattern = /\[[^\]]*\]\((\S+?)(?:\s+"([^"]*)")?\)|<(https?:\/\/[^>\s]+)>/g;
+  const links: Link[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(note.body))) {
+    const url = match[1] ?? match[3];
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      continue;
+    }
+    links.push({
+      id: note.id * 1000 + links.length,
+      note_id: note.id,
+      url,
+      kind: domains.includes(host) ? 'internal' : 'external',
+      host,
+      title: match[2] ?? '',
+      created_at: note.updated_at,
+      updated_at: note.updated_at,
+    });
+  }
+  return links;
+}
+
+function json(value: unknown, status = 200): Response {
+  return new Response(JSON.stringify(value), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function text(value: string, contentType: string): Response {
+  return new Response(value, { headers: { 'Content-Type': contentType } });
+}
+
+function fail(status: number, error: string): Response {
+  return json({ error }, status);
+}
+
+/**
+ * Create an in-memory implementation of the Collected Notes API, with the
+ * same routes used by the client, to test code using this library without
+ * mocking every request.
+ *
+ * It generates the path of new notes from their title, keeps the order of the
+ * notes of each site, paginates and filters the lists by visibility, searches
+ * the title and body of the notes and detects their links. Every change emits
+ * the same events sent by the Collected Notes webhooks.
+ *
+ * @export
+ * @function
+ * @param {FakeFixtures} [fixtures] - The initial user, sites and notes
+ * @returns {FakeAPI} - The fake API
+ */
+export function createFakeAPI(fixtures: FakeFixtures = {}): FakeAPI {
+  const now = () => new Date().toISOString();
+  const createdAt = now();
+  const pageSize = fixtures.pageSize ?? 40;
+  const token = fixtures.token ?? 'token';
+  const user: User = {
+    id: 1,
+    email: 'test@example.com',
+    name: 'Test',
+    role: 'user',
+    banned: false,
+    avatar_key: '',
+    created_at: createdAt,
+    updated_at: createdAt,
+    ...fixtures.user,
+  };
+  const authorization = `${user.email} ${token}`;
+
+  let nextId = 1;
+  const sites: Site[] = (fixtures.sites ?? [{ site_path: 'test' }]).map(
+    site => ({
+      id: nextId++,
+      user_id: user.id,
+      name: site.site_path,
+      headline: '',
+      about: '',
+      host: null,
+      created_at: createdAt,
+      updated_at: createdAt,
+      published: true,
+      tinyletter: '',
+      domain: '',
+      webhook_url: '',
+      payment_platform: null,
+      is_premium: false,
+      total_notes: 0,
+      ...site,
+    })
+  );
+  let notes: Note[] = [];
+
+  const listeners: ((event: Event) => void)[] = [];
+  const events: Event[] = [];
+
+  function emit(change: Event) {
+    // the notes of the store keep changing, the events are snapshots
+    const event: Event = JSON.parse(JSON.stringify(change));
+    events.push(event);
+    for (const listener of listeners) listener(event);
+    const { webhook } = fixtures;
+    if (!webhook) return;
+    const request = new Request(
+      typeof webhook === 'string' ? webhook : 'http://localhost/webhook',
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(event),
+      }
+    );
+    // the webhooks are sent in the background, as Collected Notes does
+    const delivery =
+      typeof webhook === 'string' ? fetch(request) : webhook(request);
+    delivery.catch(() => {});
+  }
+
+  function siteNotes(site: Site): Note[] {
+    return notes
+      .filter(note => note.site_id === site.id)
+      .sort((a, b) => a.ordering - b.ordering);
+  }
+
+  function updateOrdering(site: Site, ordered: Note[]) {
+    ordered.forEach((note, index) => {
+      note.ordering = index;
+    });
+    site.total_notes = ordered.length;
+  }
+
+  function uniquePath(site: Site, title: string): string {
+    const base = slugify(title);
+    const paths = siteNotes(site).map(note => note.path);
+    let path = base;
+    for (let i = 2; paths.includes(path); i++) path = `${base}-${i}`;
+    return path;
+  }
+
+  function addNote(
+    site: Site,
+    fields: Partial<Note> & { body: Markdown },
+    position: 'top' | 'bottom'
+  ): Note {
+    const { title, headline } = describeBody(fields.body);
+    const path = fields.path ?? uniquePath(site, title);
+    const date = now();
+    const note: Note = {
+      id: nextId++,
+      site_id: site.id,
+      user_id: user.id,
+      path,
+      headline,
+      title,
+      created_at: date,
+      updated_at: date,
+      visibility: 'private',
+      url: `${DEFAULT_BASE_URL}/${site.site_path}/${path}`,
+      poster: null,
+      curated: false,
+      ordering: 0,
+      ...fields,
+    };
+    const ordered = siteNotes(site);
+    if (position === 'top') ordered.unshift(note);
+    else ordered.push(note);
+    notes.push(note);
+    updateOrdering(site, ordered);
+    return note;
+  }
+
+  for (const { site_path, ...fields } of fixtures.notes ?? []) {
+    const site = sites.find(item => item.site_path === site_path) ?? sites[0];
+    addNote(site, fields, 'bottom');
+  }
+
+  function paginate(list: Note[], url: globalThis.URL): Note[] {
+    const page = Math.max(1, Number(url.searchParams.get('page') ?? 1));
+    const visibility = url.searchParams.get('visibility');
+    return list
+      .filter(note => !visibility || note.visibility === visibility)
+      .slice((page - 1) * pageSize, page * pageSize);
+  }
+
+  function findSite(sitePath: string): Site | undefined {
+    return sites.find(site => site.site_path === sitePath);
+  }
+
+  function findNote(site: Site, notePath: string): Note | undefined {
+    return notes.find(
+      note => note.site_id === site.id && note.path === notePath
+    );
+  }
+
+  function isVisible(note: Note, isAuthenticated: boolean): boolean {
+    return isAuthenticated || note.visibility !== 'private';
+  }
+
+  async function readNoteInput(
+    request: Request
+  ): Promise<{ body: Markdown; visibility: NoteVisibility } | null> {
+    try {
+      const { note } = await request.json();
+      if (typeof note?.body !== 'string' || note.body.trim() === '') {
+        return null;
+      }
+      return { body: note.body, visibility: note.visibility ?? 'private' };
+    } catch {
+      return null;
+    }
+  }
+
+  async function handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = decodeURIComponent(url.pathname);
+    const method = request.method.toUpperCase();
+    const isAuthenticated =
+      request.headers.get('Authorization') === authorization;
+    let match: RegExpExecArray | null;
+
+    // private API
+    if (path === '/accounts/me' || path === '/sites' || path === '/notes/add') {
+      if (!isAuthenticated) return fail(401, 'Unauthorized');
+    }
+    if (path === '/accounts/me' && method === 'GET') return json(user);
+    if (path === '/sites' && method === 'GET') return json(sites);
+
+    if (path === '/notes/add' && method === 'POST') {
+      const input = await readNoteInput(request);
+      if (!input) return fail(422, 'The body of the note is required');
+      const note = addNote(sites[0], input, 'top');
+      emit({ event: 'note-created', data: { note } });
+      return json(note);
+    }
+
+    if ((match = /^\/sites\/([^/]+)\/notes(\/.*)?$/.exec(path))) {
+      if (!isAuthenticated) return fail(401, 'Unauthorized');
+      const site = findSite(match[1]);
+      if (!site) return fail(404, 'Site not found');
+      const rest = match[2] ?? '';
+
+      if (rest === '' && method === 'GET') {
+        return json(paginate(siteNotes(site), url));
+      }
+      if (rest === '' && method === 'POST') {
+        const input = await readNoteInput(request);
+        if (!input) return fail(422, 'The body of the note is required');
+        const note = addNote(site, input, 'top');
+        emit({ event: 'note-created', data: { note } });
+        return json(note);
+      }
+      if (rest === '/search' && method === 'GET') {
+        const term = (url.searchParams.get('term') ?? '').toLowerCase();
+        return json(
+          paginate(
+            siteNotes(site).filter(
+              note =>
+                note.title.toLowerCase().includes(term) ||
+                note.body.toLowerCase().includes(term)
+            ),
+            url
+          )
+        );
+      }
+      if (rest === '/reorder' && method === 'POST') {
+        const { ids } = (await request.json()) as { ids: ID[] };
+        if (!Array.isArray(ids)) return fail(422, 'The ids are required');
+        const current = siteNotes(site);
+        const ordered = ids
+          .map(id => current.find(note => note.id === id))
+          .filter((note): note is Note => note !== undefined);
+        // the notes missing from the list keep their relative order at the end
+        for (const note of current) {
+          if (!ordered.includes(note)) ordered.push(note);
+        }
+        updateOrdering(site, ordered);
+        emit({ event: 'note-reordered', data: { notes: ordered } });
+        return json(ordered.map(note => note.id));
+      }
+      if ((match = /^\/([^/]+)\/links(\.json)?$/.exec(rest))) {
+        const note = findNote(site, match[1]);
+        if (!note) return fail(404, 'Note not found');
+        const domains = [new URL(DEFAULT_BASE_URL).host, site.domain];
+        const links = extractLinks(note, domains);
+        if (match[2]) return json(links);
+        const items = links.map(
+          link =>
+            `<li><a href="${escapeXML(link.url)}">${escapeXML(
+              link.url
+            )}</a></li>`
+        );
+        return text(`<ul>\n${items.join('\n')}\n</ul>`, 'text/html');
+      }
+      if ((match = /^\/([^/]+)$/.exec(rest)) && method === 'DELETE') {
+        const note = findNote(site, match[1]);
+        if (!note) return fail(404, 'Note not found');
+        notes = notes.filter(item => item !== note);
+        updateOrdering(site, siteNotes(site));
+        emit({ event: 'note-deleted', data: { note } });
+        return new Response(null, { status: 204 });
+      }
+      return fail(404, 'Not found');
+    }
+
+    // public API, the private notes are only visible with the credentials
+    if ((match = /^\/([^/]+)\.json$/.exec(path)) && method === 'GET') {
+      const site = findSite(match[1]);
+      if (!site) return fail(404, 'Site not found');
+      const visible = siteNotes(site).filter(note =>
+        url.searchParams.has('visibility')
+          ? isVisible(note, isAuthenticated)
+          : note.visibility === 'public'
+      );
+      return json({ site, notes: paginate(visible, url) });
+    }
+
+    if (
+      (match = /^\/([^/]+)\/([^/]+?)(\.json|\.md|\.text|\/body)?$/.exec(path))
+    ) {
+      const site = findSite(match[1]);
+      const note = site && findNote(site, match[2]);
+      if (!site || !note || !isVisible(note, isAuthenticated)) {
+        return fail(404, 'Note not found');
+      }
+      const format = match[3];
+
+      if (method === 'PUT' && !format) {
+        if (!isAuthenticated) return fail(401, 'Unauthorized');
+        const input = await readNoteInput(request);
+        if (!input) return fail(422, 'The body of the note is required');
+        Object.assign(note, input, describeBody(input.body), {
+          updated_at: now(),
+        });
+        emit({ event: 'note-updated', data: { note } });
+        return json(note);
+      }
+      if (method !== 'GET') return fail(404, 'Not found');
+
+      switch (format) {
+        case '.json':
+          return json(note);
+        case '.md':
+          return text(note.body, 'text/markdown');
+        case '.text':
+          return text(parseNoteBody(note.body).content, 'text/plain');
+        case '/body':
+          return json({ note, body: renderMarkdown(note.body) });
+      }
+    }
+
+    return fail(404, 'Not found');
+  }
+
+  return {
+    async fetch(input: RequestInfo, init?: RequestInit) {
+      const request = new Request(input, init);
+      try {
+        return await handle(request);
+      } catch (error) {
+        // a path with a malformed escape or a body that isn't JSON
+        if (error instanceof URIError || error instanceof SyntaxError) {
+          return fail(400, 'Bad request');
+        }
+        return fail(500, 'Internal server error');
+      }
+    },
+    credentials: { email: user.email, token },
+    notes: () => JSON.parse(JSON.stringify(notes)),
+    sites: () => JSON.parse(JSON.stringify(sites)),
+    events,
+    onEvent(listener) {
+      listeners.push(listener);
+      return () => {
+        const index = listeners.indexOf(listener);
+        if (index !== -1) listeners.splice(index, 1);
+      };
+    },
+  };
+}
+
+/**
+ * Create a client, with the same methods returned by `collectedNotes`, using
+ * an in-memory fake API instead of Collected Notes.
+ *
+ * @export
+ * @function
+ * @param {FakeFixtures | FakeAPI} [fixtures] - The initial user, sites and notes, or an already created fake API
+ * @param {ClientOptions} [options] - The options of the client, except the `fetch`
+ * @returns {CollectedNotesClient} - The client
+ */
+export function createFakeClient(
+  fixtures: FakeFixtures | FakeAPI = {},
+  options: Omit<ClientOptions, 'fetch'> = {}
+): CollectedNotesClient {
+  const api = 'fetch' in fixtures ? fixtures : createFakeAPI(fixtures);
+  const { email, token } = api.credentials;
+  return collectedNotes(email, token, { ...options, fetch: api.fetch });
+}
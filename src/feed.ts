@@ -0,0 +1,209 @@
+import { parseNoteBody } from './front-matter';
+import { JSONFeed, Markdown, Site, User, XML } from './index';
+import { element, renderDocument } from './xml';
+
+/**
+ * Format an ISO-8601 date as RFC 822, as required by RSS 2.0.
+ */
+function toRFC822(date: string): string {
+  return new Date(date).toUTCString();
+}
+
+/**
+ * Format an ISO-8601 date as RFC 3339, as required by Atom 1.0.
+ */
+function toRFC3339(date: string): string {
+  return new Date(date).toISOString();
+}
+
+function latestDate(feed: JSONFeed, site: Site): string {
+  return feed.items.reduce(
+    (latest, item) =>
+      item.date_modified && Date.parse(item.date_modified) > Date.parse(latest)
+        ? item.date_modified
+        : latest,
+    site.updated_at
+  );
+}
+
+const imageTypes: Record<string, string> = {
+  gif: 'image/gif',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+};
+
+function imageType(url: string): string {
+  const extension = /\.(\w+)(?:[?#].*)?$/.exec(url)?.[1]?.toLowerCase() ?? '';
+  return imageTypes[extension] ?? 'image/jpeg';
+}
+
+/**
+ * Get the tags of a note, from the `tags` field of its front matter and the
+ * hashtags (e.g. `#typescript`) used in the content, ignoring the ones inside
+ * code.
+ *
+ * @function
+ * @param {Markdown} body - The body of the note
+ * @returns {string[]} - The unique tags, without the `#`
+ */
+export function extractTags(body: Markdown): string[] {
+  const { frontMatter, content } = parseNoteBody(body);
+  const tags: string[] = [];
+  const declared = frontMatter.tags;
+  const declaredTags = Array.isArray(declared)
+    ? declared
+    : typeof declared === 'string'
+    ? declared.split(',')
+    : [];
+  for (const tag of declaredTags) {
+    const value = String(tag ?? '').trim();
+    if (value !== '' && !tags.includes(value)) tags.push(value);
+  }
+
+  const text = content.replace(/```[\s\S]*?```/g, '').replace(/`[^`\n]*`/g, '');
+  const pattern = /(^|\s)#([^\s#.,;:!?()[\]{}"'`<>]+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const tag = match[2];
+    // skip references to issues or numbered items like #1
+    if (/^\d+$/.test(tag) || tags.includes(tag)) continue;
+    tags.push(tag);
+  }
+  return tags;
+}
+
+/**
+ * Render a feed as RSS 2.0.
+ *
+ * @function
+ * @param {JSONFeed} feed - The feed with the items to render
+ * @param {Site} site - The site the feed belongs to
+ * @param {User} user - The author of the notes
+ * @returns {XML} - The RSS document
+ */
+export function renderRSS(feed: JSONFeed, site: Site, user: User): XML {
+  const date = toRFC822(latestDate(feed, site));
+
+  return renderDocument(
+    element(
+      'rss',
+      {
+        version: '2.0',
+        'xmlns:atom': 'http://www.w3.org/2005/Atom',
+        'xmlns:content': 'http://purl.org/rss/1.0/modules/content/',
+        'xmlns:dc': 'http://purl.org/dc/elements/1.1/',
+      },
+      element(
+        'channel',
+        {},
+        element('title', {}, feed.title),
+        element('link', {}, feed.home_page_url ?? ''),
+        element('description', {}, site.headline),
+        feed.language && element('language', {}, feed.language),
+        feed.feed_url &&
+          element('atom:link', {
+            href: feed.feed_url,
+            rel: 'self',
+            type: 'application/rss+xml',
+          }),
+        element('lastBuildDate', {}, date),
+        element('pubDate', {}, date),
+        ...feed.items.map(item =>
+          element(
+            'item',
+            {},
+            element('title', {}, item.title ?? ''),
+            item.url && element('link', {}, item.url),
+            element(
+              'guid',
+              { isPermaLink: item.url ? 'true' : 'false' },
+              item.url ?? item.id
+            ),
+            item.date_published &&
+              element('pubDate', {}, toRFC822(item.date_published)),
+            // RSS `author` must be an email, the one of the account is private
+            element('dc:creator', {}, user.name),
+            ...(item.tags ?? []).map(tag => element('category', {}, tag)),
+            item.summary && element('description', {}, item.summary),
+            item.content_html &&
+              element('content:encoded', {}, item.content_html),
+            item.image &&
+              element('enclosure', {
+                url: item.image,
+                length: '0',
+                type: imageType(item.image),
+              })
+          )
+        )
+      )
+    )
+  );
+}
+
+/**
+ * Render a feed as Atom 1.0.
+ *
+ * @function
+ * @param {JSONFeed} feed - The feed with the items to render
+ * @param {Site} site - The site the feed belongs to
+ * @param {User} user - The author of the notes
+ * @returns {XML} - The Atom document
+ */
+export function renderAtom(feed: JSONFeed, site: Site, user: User): XML {
+  return renderDocument(
+    element(
+      'feed',
+      { xmlns: 'http://www.w3.org/2005/Atom', 'xml:lang': feed.language },
+      element(
+        'id',
+        {},
+        feed.feed_url ??
+          feed.home_page_url ??
+          `urn:collected-notes:site:${site.id}`
+      ),
+      element('title', {}, feed.title),
+      site.headline && element('subtitle', {}, site.headline),
+      element('updated', {}, toRFC3339(latestDate(feed, site))),
+      feed.home_page_url &&
+        element('link', { rel: 'alternate', href: feed.home_page_url }),
+      feed.feed_url &&
+        element('link', {
+          rel: 'self',
+          type: 'application/atom+xml',
+          href: feed.feed_url,
+        }),
+      element('author', {}, element('name', {}, user.name)),
+      ...feed.items.map(item =>
+        element(
+          'entry',
+          {},
+          element('id', {}, item.url ?? `urn:collected-notes:note:${item.id}`),
+          element('title', {}, item.title ?? ''),
+          item.url && element('link', { rel: 'alternate', href: item.url }),
+          item.date_published &&
+            element('published', {}, toRFC3339(item.date_published)),
+          element(
+            'updated',
+            {},
+            toRFC3339(
+              item.date_modified ?? item.date_published ?? site.updated_at
+            )
+          ),
+          ...(item.tags ?? []).map(tag => element('category', { term: tag })),
+          item.summary && element('summary', {}, item.summary),
+          item.content_html &&
+            element('content', { type: 'html' }, item.content_html),
+          item.image &&
+            element('link', {
+              rel: 'enclosure',
+              href: item.image,
+              type: imageType(item.image),
+            })
+        )
+      )
+    )
+  );
+}
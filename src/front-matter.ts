@@ -0,0 +1,236 @@
+import { Markdown } from './index';
+
+/**
+ * A value inside the front matter of a note.
+ * @export
+ */
+export type FrontMatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | Array<string | number | boolean | null>;
+
+/**
+ * The front matter at the beginning of the body of a note.
+ * @export
+ */
+export type FrontMatter = { [key: string]: FrontMatterValue | undefined };
+
+/**
+ * The body of a note split in its front matter and content.
+ * @export
+ */
+export type ParsedNoteBody<T extends FrontMatter = FrontMatter> = {
+  /**
+   * The fields of the front matter, an empty object if the body has none.
+   * @type {Partial<T>}
+   */
+  frontMatter: Partial<T>;
+  /**
+   * The body without the front matter, exactly as it was written.
+   * @type {Markdown}
+   */
+  content: Markdown;
+  /**
+   * The title of the note, extracted from the first line of the content when
+   * prepended with `#`, `null` if there is no title.
+   * @type {(string | null)}
+   */
+  title: string | null;
+};
+
+const frontMatterPattern = /^---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?(?:---|\.\.\.)[ \t]*(?:\r?\n|$)/;
+
+function splitInlineArray(value: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+  for (const char of value.split('')) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim() !== '') items.push(current.trim());
+  return items;
+}
+
+function parseScalar(value: string): string | number | boolean | null {
+  if (value === '' || value === '~' || value === 'null') return null;
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  if (value.startsWith('"') && value.endsWith('"') && value.length > 1) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.slice(1, -1);
+    }
+  }
+  if (value.startsWith("'") && value.endsWith("'") && value.length > 1) {
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  return value;
+}
+
+function parseValue(value: string): FrontMatterValue {
+  if (value.startsWith('[') && value.endsWith(']')) {
+    return splitInlineArray(value.slice(1, -1)).map(parseScalar);
+  }
+  return parseScalar(value);
+}
+
+/**
+ * Parse a front matter written in YAML.
+ *
+ * Only the subset of YAML used in front matters is supported: one field per
+ * line with a scalar value (strings, numbers, booleans and null) or a list,
+ * written inline (`[a, b]`) or with one `- item` per line. Comments and the
+ * lines not matching this format are ignored.
+ *
+ * @function
+ * @param {string} yaml - The front matter, without the `---` delimiters
+ * @returns {FrontMatter} - The fields of the front matter
+ */
+export function parseFrontMatter(yaml: string): FrontMatter {
+  const frontMatter: FrontMatter = {};
+  // keys without a value, they are lists if items follow or null otherwise
+  const emptyKeys = new Set<string>();
+  let listKey: string | null = null;
+
+  for (const line of yaml.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) continue;
+
+    const item = /^-\s*(.*)$/.exec(trimmed);
+    if (item && listKey !== null) {
+      const list = frontMatter[listKey];
+      if (Array.isArray(list)) list.push(parseScalar(item[1].trim()));
+      emptyKeys.delete(listKey);
+      continue;
+    }
+
+    const field = /^([^\s:#][^:]*?)\s*:(?:\s+(.*))?$/.exec(line);
+    if (!field) {
+      listKey = null;
+      continue;
+    }
+
+    const [, key, rawValue = ''] = field;
+    const value = rawValue.trim();
+    if (value === '') {
+      frontMatter[key] = [];
+      emptyKeys.add(key);
+      listKey = key;
+    } else {
+      frontMatter[key] = parseValue(value);
+      emptyKeys.delete(key);
+      listKey = null;
+    }
+  }
+
+  emptyKeys.forEach(key => {
+    frontMatter[key] = null;
+  });
+
+  return frontMatter;
+}
+
+function stringifyScalar(value: string | number | boolean | null): string {
+  if (value === null) return 'null';
+  if (typeof value !== 'string') return String(value);
+  const isPlain =
+    /^[^\s'"[\]{}#&*!|>%@`,?:~-][^#]*$/.test(value) &&
+    !/:(\s|$)/.test(value) &&
+    !/[\r\n]/.test(value) &&
+    value.trim() === value &&
+    typeof parseScalar(value) === 'string';
+  return isPlain ? value : JSON.stringify(value);
+}
+
+// the keys `parseFrontMatter` reads back as they are
+function isValidKey(key: string): boolean {
+  return /^[^\s:#-][^:\r\n]*$/.test(key) && key.trimEnd() === key;
+}
+
+/**
+ * Serialize a front matter as YAML, including the `---` delimiters.
+ *
+ * Throws a `TypeError` if a key can't be written as a plain YAML key, e.g. if
+ * it contains `:` or a line break.
+ *
+ * @function
+ * @param {FrontMatter} frontMatter - The fields of the front matter
+ * @returns {string} - The front matter, ending with a new line
+ */
+export function stringifyFrontMatter(frontMatter: FrontMatter): string {
+  const lines = Object.keys(frontMatter)
+    .filter(key => frontMatter[key] !== undefined)
+    .map(key => {
+      if (!isValidKey(key)) {
+        throw new TypeError(
+          `The front matter key ${JSON.stringify(key)} is not a valid YAML key`
+        );
+      }
+      const value = frontMatter[key] as FrontMatterValue;
+      if (!Array.isArray(value)) return `${key}: ${stringifyScalar(value)}`;
+      if (value.length === 0) return `${key}: []`;
+      return [
+        `${key}:`,
+        ...value.map(item => `  - ${stringifyScalar(item)}`),
+      ].join('\n');
+    });
+  return `---\n${lines.join('\n')}\n---\n`;
+}
+
+/**
+ * Split the body of a note in its front matter, its content and its title.
+ *
+ * @export
+ * @function
+ * @param {Markdown} markdown - The body of the note
+ * @returns {ParsedNoteBody<T>} - The front matter, the content and the title
+ */
+export function parseNoteBody<T extends FrontMatter = FrontMatter>(
+  markdown: Markdown
+): ParsedNoteBody<T> {
+  const match = frontMatterPattern.exec(markdown);
+  const frontMatter = match ? parseFrontMatter(match[1] ?? '') : {};
+  const content = match ? markdown.slice(match[0].length) : markdown;
+  const firstLine = content.trimStart().split(/\r?\n/)[0];
+  const heading = /^#[ \t]+(.+?)[ \t]*$/.exec(firstLine);
+  const title = heading ? heading[1] : null;
+
+  return { frontMatter: frontMatter as Partial<T>, content, title };
+}
+
+/**
+ * Replace the front matter of the body of a note, keeping the rest of the
+ * body untouched. An empty front matter removes it from the body.
+ * Throws a `TypeError` if a key contains `:` or a line break.
+ *
+ * @export
+ * @function
+ * @param {Markdown} markdown - The body of the note
+ * @param {FrontMatter} frontMatter - The new front matter
+ * @returns {Markdown} - The body with the new front matter
+ */
+export function setFrontMatter(
+  markdown: Markdown,
+  frontMatter: FrontMatter
+): Markdown {
+  const { content } = parseNoteBody(markdown);
+  const hasFields = Object.keys(frontMatter).some(
+    key => frontMatter[key] !== undefined
+  );
+  return hasFields ? `${stringifyFrontMatter(frontMatter)}${content}` : content;
+}
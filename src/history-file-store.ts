@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { HistoryStore } from './index';
+
+/**
+ * Create a store saving the versions of every note as a JSON file inside a
+ * directory, named after the ID of the note (e.g. `42.json`).
+ *
+ * @export
+ * @function
+ * @param {string} dir - The directory where the versions are saved
+ * @returns {HistoryStore} - The store
+ */
+export function createFileHistoryStore(dir: string): HistoryStore {
+  return {
+    async get(noteId) {
+      try {
+        const file = join(dir, `${noteId}.json`);
+        return JSON.parse(await fs.readFile(file, 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+    async set(noteId, versions) {
+      await fs.mkdir(dir, { recursive: true });
+      const file = join(dir, `${noteId}.json`);
+      await fs.writeFile(file, JSON.stringify(versions, null, 2), 'utf8');
+    },
+    async noteIds() {
+      let names: string[];
+      try {
+        names = await fs.readdir(dir);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+      return names
+        .filter(name => /^\d+\.json$/.test(name))
+        .map(name => Number(name.slice(0, -'.json'.length)));
+    },
+  };
+}
@@ -0,0 +1,334 @@
+import {
+  CallOptions,
+  CollectedNotesClient,
+  Event,
+  ID,
+  ISODate,
+  Note,
+} from './index';
+
+/**
+ * A version of a note, as it was at some point.
+ * @export
+ */
+export type NoteVersion = {
+  /**
+   * The number of the version, starting at `1` for the first one recorded.
+   * @type {number}
+   */
+  version: number;
+  /**
+   * When the version was recorded.
+   * @type {ISODate}
+   */
+  recordedAt: ISODate;
+  /**
+   * The note, with the body and visibility of this version.
+   * @type {Note}
+   */
+  note: Note;
+};
+
+/**
+ * Where the versions of the notes are stored, every method can be sync or
+ * async.
+ * @export
+ */
+export type HistoryStore = {
+  get(
+    noteId: ID
+  ): NoteVersion[] | undefined | Promise<NoteVersion[] | undefined>;
+  set(noteId: ID, versions: NoteVersion[]): void | Promise<void>;
+  noteIds(): ID[] | Promise<ID[]>;
+};
+
+/**
+ * A line of the difference between two versions of a note.
+ * @export
+ */
+export type DiffLine = {
+  /**
+   * If the line was added, removed or is in both versions.
+   * @type {('added' | 'removed' | 'unchanged')}
+   */
+  type: 'added' | 'removed' | 'unchanged';
+  /**
+   * The content of the line, without the line break.
+   * @type {string}
+   */
+  line: string;
+};
+
+/**
+ * The options to create a note history.
+ * @export
+ */
+export type NoteHistoryOptions = {
+  /**
+   * Where the versions are stored, by default in memory.
+   * @type {HistoryStore}
+   */
+  store?: HistoryStore;
+  /**
+   * The maximum number of versions kept of every note, the oldest ones are
+   * removed first, by default every version is kept.
+   * @type {number}
+   */
+  maxVersions?: number;
+};
+
+/**
+ * The versions of the notes of a user, as returned by `createNoteHistory`.
+ * @export
+ */
+export type NoteHistory = {
+  /**
+   * Record the current state of a note, it's ignored if the body, title and
+   * visibility didn't change since the last version.
+   */
+  record(note: Note): Promise<NoteVersion | null>;
+  /**
+   * Record the notes of a webhook event, the notes of a `note-deleted` event
+   * are recorded too, so they can be read and restored later.
+   */
+  recordEvent(event: Event): Promise<NoteVersion[]>;
+  /**
+   * Read the notes with the client and record them, to keep a history
+   * without webhooks.
+   */
+  poll(
+    sitePath: string,
+    notePaths: string | string[],
+    options?: CallOptions
+  ): Promise<NoteVersion[]>;
+  /**
+   * Get every version of a note, from the oldest to the newest.
+   */
+  versions(noteId: ID): Promise<NoteVersion[]>;
+  /**
+   * Get the line differences between the bodies of two versions of a note,
+   * by default the newest version is compared with the previous one.
+   */
+  diff(noteId: ID, from?: number, to?: number): Promise<DiffLine[]>;
+  /**
+   * Update the note with the body and visibility of an old version, the
+   * result is recorded as a new version. A deleted note is created again in
+   * its site, with a new ID.
+   */
+  restore(noteId: ID, version: number, options?: CallOptions): Promise<Note>;
+};
+
+/**
+ * Create a store keeping the versions in memory.
+ *
+ * @export
+ * @function
+ * @returns {HistoryStore} - The store
+ */
+export function createMemoryHistoryStore(): HistoryStore {
+  const notes = new Map<ID, NoteVersion[]>();
+  return {
+    get: noteId => notes.get(noteId),
+    set(noteId, versions) {
+      notes.set(noteId, versions);
+    },
+    noteIds: () => Array.from(notes.keys()),
+  };
+}
+
+/**
+ * Get the line differences between two texts, using the longest common
+ * subsequence of their lines.
+ *
+ * @export
+ * @function
+ * @param {string} before - The old text
+ * @param {string} after - The new text
+ * @returns {DiffLine[]} - Every line of both texts, in order
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  // lengths[i][j] is the length of the common subsequence of a[i:] and b[j:]
+  const lengths: number[][] = [];
+  for (let i = a.length; i >= 0; i--) {
+    lengths[i] = [];
+    for (let j = b.length; j >= 0; j--) {
+      if (i === a.length || j === b.length) lengths[i][j] = 0;
+      else if (a[i] === b[j]) lengths[i][j] = lengths[i + 1][j + 1] + 1;
+      else lengths[i][j] = Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ type: 'unchanged', line: a[i] });
+      i++;
+      j++;
+    } else if (
+      i < a.length &&
+      (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])
+    ) {
+      lines.push({ type: 'removed', line: a[i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', line: b[j] });
+      j++;
+    }
+  }
+  return lines;
+}
+
+function isSameVersion(a: Note, b: Note): boolean {
+  return (
+    a.body === b.body && a.title === b.title && a.visibility === b.visibility
+  );
+}
+
+/**
+ * Create a history of the versions of the notes, Collected Notes doesn't keep
+ * them so they are recorded from the webhook events or reading the notes.
+ *
+ * @export
+ * @function
+ * @param {CollectedNotesClient} client - The client used to read and restore the notes
+ * @param {NoteHistoryOptions} [options] - The store and the maximum number of versions of every note
+ * @returns {NoteHistory} - The history
+ */
+export function createNoteHistory(
+  client: CollectedNotesClient,
+  {
+    store = createMemoryHistoryStore(),
+    maxVersions = Infinity,
+  }: NoteHistoryOptions = {}
+): NoteHistory {
+  // the versions of a note are read and written by one call at a time
+  const pending = new Map<ID, Promise<unknown>>();
+
+  function serialize<T>(noteId: ID, fn: () => Promise<T>): Promise<T> {
+    const previous = pending.get(noteId) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(fn);
+    pending.set(noteId, next);
+    next
+      .catch(() => {})
+      .then(() => {
+        if (pending.get(noteId) === next) pending.delete(noteId);
+      });
+    return next;
+  }
+
+  async function versions(noteId: ID): Promise<NoteVersion[]> {
+    return (await store.get(noteId)) ?? [];
+  }
+
+  function record(note: Note): Promise<NoteVersion | null> {
+    return serialize(note.id, async () => {
+      const current = await versions(note.id);
+      const last = current[current.length - 1];
+      if (last && isSameVersion(last.note, note)) return null;
+
+      const version: NoteVersion = {
+        version: last ? last.version + 1 : 1,
+        recordedAt: new Date().toISOString(),
+        note,
+      };
+      const kept = [...current, version].slice(-maxVersions);
+      await store.set(note.id, kept);
+      return version;
+    });
+  }
+
+  async function recordAll(notes: Note[]): Promise<NoteVersion[]> {
+    const recorded = await Promise.all(notes.map(record));
+    return recorded.filter((version): version is NoteVersion => !!version);
+  }
+
+  async function recordEvent(event: Event): Promise<NoteVersion[]> {
+    switch (event.event) {
+      case 'note-created':
+      case 'note-updated':
+      case 'note-deleted':
+        return await recordAll([event.data.note]);
+      case 'note-reordered':
+        return await recordAll(event.data.notes);
+    }
+  }
+
+  async function poll(
+    sitePath: string,
+    notePaths: string | string[],
+    options: CallOptions = {}
+  ): Promise<NoteVersion[]> {
+    const paths = Array.isArray(notePaths) ? notePaths : [notePaths];
+    const notes = await Promise.all(
+      paths.map(notePath => client.read(sitePath, notePath, 'json', options))
+    );
+    return await recordAll(notes);
+  }
+
+  async function findVersion(noteId: ID, version: number) {
+    const found = (await versions(noteId)).find(
+      item => item.version === version
+    );
+    if (!found) {
+      throw new RangeError(`The note ${noteId} has no version ${version}`);
+    }
+    return found;
+  }
+
+  async function diff(
+    noteId: ID,
+    from?: number,
+    to?: number
+  ): Promise<DiffLine[]> {
+    const all = await versions(noteId);
+    const newest = all[all.length - 1]?.version ?? 0;
+    const toVersion = await findVersion(noteId, to ?? newest);
+    const fromVersion =
+      from === undefined
+        ? all.filter(item => item.version < toVersion.version).pop()
+        : await findVersion(noteId, from);
+    return diffLines(fromVersion?.note.body ?? '', toVersion.note.body);
+  }
+
+  async function restore(
+    noteId: ID,
+    version: number,
+    options: CallOptions = {}
+  ): Promise<Note> {
+    const { note } = await findVersion(noteId, version);
+    // read the note again instead of trusting the indexed path, it may be
+    // stale if the note was renamed or deleted elsewhere
+    const current = await client.getNoteById(noteId, options);
+    const location = current && (await client.resolvePath(noteId, options));
+    if (!location) {
+      // the note was deleted, the new one starts its own history
+      const sites = await client.sites(options);
+      const site = sites.find(item => item.id === note.site_id);
+      if (!site) {
+        throw new RangeError(`There is no site with ID ${note.site_id}`);
+      }
+      const created = await client.create(
+        { body: note.body, visibility: note.visibility },
+        site.site_path,
+        options
+      );
+      await record(created);
+      return created;
+    }
+    const updated = await client.update(
+      location.sitePath,
+      location.notePath,
+      { body: note.body, visibility: note.visibility },
+      options
+    );
+    await record(updated);
+    return updated;
+  }
+
+  return { record, recordEvent, poll, versions, diff, restore };
+}
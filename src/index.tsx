@@ -1,3 +1,142 @@
+import {
+  CallOptions,
+  ClientOptions,
+  createRequest,
+  DEFAULT_BASE_URL,
+  RequestOptions,
+} from './request';
+import { Middleware } from './middleware';
+import {
+  ConflictError,
+  NotFoundError,
+  ReorderError,
+  UnknownSiteError,
+} from './errors';
+import { paginate, PaginateOptions } from './paginate';
+import { extractTags, renderAtom, renderRSS } from './feed';
+import { mapWithConcurrency } from './concurrency';
+import {
+  MAX_SITEMAP_URLS,
+  renderSitemap,
+  renderSitemapIndex,
+  SitemapEntry,
+} from './sitemap';
+import { FrontMatter, setFrontMatter } from './front-matter';
+import {
+  assertIds,
+  assertLinks,
+  assertNote,
+  assertNoteBody,
+  assertNotes,
+  assertSiteData,
+  assertSites,
+  assertUser,
+  parseJSON,
+} from './validate';
+
+export {
+  CollectedNotesError,
+  AuthenticationError,
+  NotFoundError,
+  ValidationError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+  InvalidWebhookError,
+  SchemaValidationError,
+  ConflictError,
+  ReorderError,
+  UnknownSiteError,
+} from './errors';
+export { CallOptions, ClientOptions, RetryOptions } from './request';
+export {
+  Middleware,
+  MiddlewareRequest,
+  RequestErrorEvent,
+  RequestEvent,
+  RequestHooks,
+  ResponseEvent,
+} from './middleware';
+export { PaginateOptions } from './paginate';
+export {
+  createCache,
+  createMemoryStore,
+  CacheEntry,
+  CacheOptions,
+  CacheStore,
+  HTTPCache,
+} from './cache';
+export {
+  parseWebhookEvent,
+  createWebhookHandler,
+  WebhookHandler,
+  WebhookHandlers,
+  WebhookHandlerOptions,
+} from './webhooks';
+export {
+  Assert,
+  arrayOf,
+  assertLink,
+  assertNote,
+  assertSite,
+  assertUser,
+  isLink,
+  isNote,
+  isSite,
+  isUser,
+} from './validate';
+export {
+  FrontMatter,
+  FrontMatterValue,
+  ParsedNoteBody,
+  parseNoteBody,
+  setFrontMatter,
+} from './front-matter';
+export {
+  buildLinkGraph,
+  renderLinkGraphDOT,
+  BrokenLink,
+  LinkGraph,
+  LinkGraphEdge,
+  LinkGraphNote,
+  LinkGraphOptions,
+} from './link-graph';
+export {
+  checkLinks,
+  CheckLinksOptions,
+  LinkCheckReport,
+  LinkCheckResult,
+} from './link-checker';
+export { robotsTxt, RobotsOptions } from './sitemap';
+export {
+  bulk,
+  BulkAction,
+  BulkNoteResult,
+  BulkOptions,
+  BulkProgress,
+  BulkResult,
+  BulkSelector,
+} from './bulk';
+export { createFakeAPI, createFakeClient, FakeAPI, FakeFixtures } from './fake';
+export {
+  createMemoryHistoryStore,
+  createNoteHistory,
+  diffLines,
+  DiffLine,
+  HistoryStore,
+  NoteHistory,
+  NoteHistoryOptions,
+  NoteVersion,
+} from './history';
+export {
+  buildSearchIndex,
+  createSearchIndex,
+  LocalSearchOptions,
+  LocalSearchResult,
+  SearchIndex,
+  SerializedSearchIndex,
+} from './search-index';
+
 /**
  * An unique identifier of an item inside the Collected Notes API.
  * @export
@@ -71,10 +210,11 @@ export type NoteVisibility =
 export type NoteFormat = 'md' | 'txt' | 'json';
 
 /**
- * The format an RSS can come in.
+ * The format a feed can come in, `xml` is RSS 2.0, `atom` is Atom 1.0 and
+ * `json` is JSON Feed.
  * @export
  */
-export type FeedFormat = 'xml' | 'json';
+export type FeedFormat = 'xml' | 'atom' | 'json';
 
 export type JSONFeed = {
   /**
@@ -111,20 +251,21 @@ export type JSONFeed = {
    * Specifies the feed author. The author object has several members. These
    * are all optional — but if you provide an author object, then at least one
    * is required.
+   * Deprecated in version 1.1 in favor of `authors`, kept for readers still
+   * using version 1.
    */
-  author?: {
-    /**
-     * The author’s name
-     */
-    name?: string;
-    /**
-     * Is the URL for an image for the author. As with icon, it should be
-     * square and relatively large — such as 512 x 512 — and should use
-     * transparency where appropriate, since it may be rendered on a non-white
-     * background.
-     */
-    avatar?: string;
-  };
+  author?: JSONFeedAuthor;
+  /**
+   * Specifies one or more feed authors. The author object has several
+   * members, see `author`.
+   */
+  authors?: JSONFeedAuthor[];
+  /**
+   * Is the primary language for the feed in the format specified in RFC 5646.
+   * The value is usually a 2-letter language tag from ISO 639-1, optionally
+   * followed by a region tag. (Examples: `en` or `en-US`.)
+   */
+  language?: string;
   items: Array<{
     /**
      * Is unique for that item for that feed over time. If an item is ever
@@ -177,14 +318,104 @@ export type JSONFeed = {
      * Specifies the modification date in RFC 3339 format.
      */
     date_modified?: string;
+    /**
+     * Can have any plain text values you want. Tags tend to be just one word,
+     * but they may be anything.
+     */
+    tags?: string[];
   }>;
 };
 
+export type JSONFeedAuthor = {
+  /**
+   * The author’s name
+   */
+  name?: string;
+  /**
+   * Is the URL of a site owned by the author. It could be a blog, micro-blog,
+   * Twitter account, and so on.
+   */
+  url?: string;
+  /**
+   * Is the URL for an image for the author. As with icon, it should be
+   * square and relatively large — such as 512 x 512 — and should use
+   * transparency where appropriate, since it may be rendered on a non-white
+   * background.
+   */
+  avatar?: string;
+};
+
 export type FeedOptions = {
   homePageUrl: string;
   feedUrl: string;
 };
 
+/**
+ * Where to move a note, `before` or `after` another note, by its ID, or to a
+ * position `toIndex`, starting at `0`.
+ * @export
+ */
+export type NotePosition = { before: ID } | { after: ID } | { toIndex: number };
+
+/**
+ * The fields the notes can be sorted by.
+ * @export
+ */
+export type NoteSortKey = 'title' | 'created_at' | 'updated_at';
+
+/**
+ * The options used to build the sitemap of a site.
+ * @export
+ */
+export type SitemapOptions = {
+  /**
+   * The URL the paths of the notes are resolved against, by default it's the
+   * custom domain of the site or its URL inside Collected Notes.
+   * @type {URL}
+   */
+  baseUrl?: URL;
+  /**
+   * The visibility of the notes included, by default only `public` and
+   * `public_site` notes are included.
+   * @type {(NoteVisibility | NoteVisibility[])}
+   */
+  visibility?: NoteVisibility | NoteVisibility[];
+  /**
+   * The maximum number of URLs of each sitemap, by default is `50000`, the
+   * limit of the sitemaps protocol. With more URLs a sitemap index is
+   * generated.
+   * @type {number}
+   */
+  maxUrls?: number;
+};
+
+/**
+ * The information and limits used to build a feed of a site.
+ * @export
+ */
+export type FeedBuildOptions = Pick<
+  JSONFeed,
+  'home_page_url' | 'feed_url' | 'language'
+> & {
+  /**
+   * The maximum number of notes in the feed, by default every note of the
+   * site is included.
+   * @type {number}
+   */
+  limit?: number;
+  /**
+   * Only include the notes updated after this date.
+   * @type {(ISODate | Date)}
+   */
+  since?: ISODate | Date;
+  /**
+   * The maximum number of requests to get the HTML of the notes running at
+   * the same time, by default is `4`.
+   * @type {number}
+   */
+  concurrency?: number;
+};
+
 /**
  * A note inside Collected Notes.
  *
@@ -268,6 +499,23 @@ export type Note = {
   ordering: number;
 };
 
+/**
+ * Where a note is, the path of its site and its own path.
+ * @export
+ */
+export type NoteLocation = {
+  /**
+   * The path of the site (e.g. `blog`).
+   * @type {string}
+   */
+  sitePath: string;
+  /**
+   * The path of the note (e.g. `api`).
+   * @type {string}
+   */
+  notePath: string;
+};
+
 /**
  * A site inside Collected Notes.
  *
@@ -492,14 +740,54 @@ const basicHeaders = {
  * @function
  * @param {Email} email - The string you use to login in Collected Notes
  * @param {string} token - Your API token, you can get it in https://collectednotes.com/accounts/me/token
+ * @param {ClientOptions} [options] - The base URL, fetch implementation and extra headers used for the requests
  * @returns
  */
-export function collectedNotes(email: Email, token: string) {
+export function collectedNotes(
+  email: Email,
+  token: string,
+  options: ClientOptions = {}
+) {
+  // copied so `use` doesn't change the array of the options
+  const middleware = [...(options.middleware ?? [])];
+  const request = createRequest({ ...options, middleware });
+  const { validate, defaultSite } = options;
   const headers = {
     Authorization: `${email} ${token}`,
     ...basicHeaders,
   };
 
+  // the location of every note read, to find notes by their id
+  const noteIndex = new Map<ID, NoteLocation>();
+  const sitePaths = new Map<ID, string>();
+  let indexing: Promise<void> | null = null;
+
+  function indexNote(sitePath: string | undefined, note: Note) {
+    if (sitePath === undefined) return;
+    sitePaths.set(note.site_id, sitePath);
+    noteIndex.set(note.id, { sitePath, notePath: note.path });
+  }
+
+  // the default site is checked once, a failed check is retried on next use
+  let defaultSiteCheck: Promise<string> | null = null;
+
+  function resolveDefaultSite(options: CallOptions): Promise<string> {
+    if (defaultSite === undefined) {
+      throw new TypeError('The client has no defaultSite configured');
+    }
+    if (!defaultSiteCheck) {
+      defaultSiteCheck = sites(options).then(userSites => {
+        const available = userSites.map(site => site.site_path);
+        if (available.includes(defaultSite)) return defaultSite;
+        throw new UnknownSiteError({ sitePath: defaultSite, available });
+      });
+      defaultSiteCheck.catch(() => {
+        defaultSiteCheck = null;
+      });
+    }
+    return defaultSiteCheck;
+  }
+
   /**
    * Get the latest notes of a Collected Notes site.
    *
@@ -512,19 +800,23 @@ export function collectedNotes(email: Email, token: string) {
    * @param {string} sitePath - The path of the site (e.g. `blog`)
    * @param {number} [page=1] - The page of the results, by default is `1`
    * @param {NoteVisibility} [visibility] - The page of the results, by default is `1`
+   * @param {CallOptions} [options] - The signal to abort the request and its timeout
    * @returns {Promise<Note[]>} - The list of notes
    */
   async function latestNotes(
     sitePath: string,
     page: number = 1,
-    visibility?: NoteVisibility
+    visibility?: NoteVisibility,
+    options: CallOptions = {}
   ): Promise<Note[]> {
     const url = visibility
-      ? `https://collectednotes.com/sites/${sitePath}/notes?page=${page}&visibility=${visibility}`
-      : `https://collectednotes.com/sites/${sitePath}/notes?page=${page}`;
+      ? `/sites/${sitePath}/notes?page=${page}&visibility=${visibility}`
+      : `/sites/${sitePath}/notes?page=${page}`;
 
-    const response = await fetch(url, { headers });
-    return await response.json();
+    const response = await request(url, { ...options, headers });
+    const notes = await parseJSON(response, assertNotes, validate);
+    for (const note of notes) indexNote(sitePath, note);
+    return notes;
   }
 
   /**
@@ -532,13 +824,14 @@ export function collectedNotes(email: Email, token: string) {
    *
    * @function
    * @async
+   * @param {CallOptions} [options] - The signal to abort the request and its timeout
    * @returns {Promise<Site[]>} - The list of sites
    */
-  async function sites(): Promise<Site[]> {
-    const response = await fetch('https://collectednotes.com/sites', {
-      headers,
-    });
-    return await response.json();
+  async function sites(options: CallOptions = {}): Promise<Site[]> {
+    const response = await request('/sites', { ...options, headers });
+    const userSites = await parseJSON(response, assertSites, validate);
+    for (const site of userSites) sitePaths.set(site.id, site.site_path);
+    return userSites;
   }
 
   /**
@@ -546,23 +839,31 @@ export function collectedNotes(email: Email, token: string) {
    *
    * @function
    * @async
-   * @param {{ body: string; visibility: NoteVisibility }} note - The body and visibility of the new note
-   * @param {string} [sitePath] - The path of the site (e.g. `blog`), if not specified the note will be automatically added to the first site you have configured
+   * @param {{ body: string; visibility: NoteVisibility; frontMatter?: FrontMatter }} note - The body and visibility of the new note, the front matter replaces the one in the body
+   * @param {string} [sitePath] - The path of the site (e.g. `blog`), if not specified the note will be added to the `defaultSite` of the client or, without it, to the first site you have configured
+   * @param {CallOptions} [options] - The signal to abort the request and its timeout
    * @returns {Promise<Note>} - The newly created note
    */
   async function create(
     note: {
       body: string;
       visibility: NoteVisibility;
+      frontMatter?: FrontMatter;
     },
-    sitePath?: string
+    sitePath?: string,
+    options: CallOptions = {}
   ): Promise<Note> {
-    const { body, visibility } = note;
-    const url = sitePath
-      ? `https://collectednotes.com/sites/${sitePath}/notes`
-      : 'https://collectednotes.com/notes/add';
+    const { visibility, frontMatter } = note;
+    const body = frontMatter
+      ? setFrontMatter(note.body, frontMatter)
+      : note.body;
+    if (sitePath === undefined && defaultSite !== undefined) {
+      sitePath = await resolveDefaultSite(options);
+    }
+    const url = sitePath ? `/sites/${sitePath}/notes` : '/notes/add';
 
-    const response = await fetch(url, {
+    const response = await request(url, {
+      ...options,
       method: 'POST',
       headers,
       body: JSON.stringify({
@@ -572,7 +873,9 @@ export function collectedNotes(email: Email, token: string) {
         },
       }),
     });
-    return await response.json();
+    const created = await parseJSON(response, assertNote, validate);
+    indexNote(sitePath ?? sitePaths.get(created.site_id), created);
+    return created;
   }
 
   /**
@@ -584,7 +887,8 @@ export function collectedNotes(email: Email, token: string) {
    * @async
    * @param {string} sitePath - The path of the site (e.g.`blog`)
    * @param {string} notePath - The path of the note (e.g. `api`)
-   * @param {{ body: string; visibility: NoteVisibility }} note - The new body and visibility of the note
+   * @param {{ body: string; visibility: NoteVisibility; frontMatter?: FrontMatter }} note - The new body and visibility of the note, the front matter replaces the one in the body
+   * @param {CallOptions} [options] - The signal to abort the request and its timeout
    * @returns {Promise<Note>} - The updated note data
    */
   async function update(
@@ -593,23 +897,84 @@ export function collectedNotes(email: Email, token: string) {
     note: {
       body: string;
       visibility: NoteVisibility;
-    }
+      frontMatter?: FrontMatter;
+    },
+    options: CallOptions = {}
+  ): Promise<Note> {
+    const { visibility, frontMatter } = note;
+    const body = frontMatter
+      ? setFrontMatter(note.body, frontMatter)
+      : note.body;
+    const response = await request(`/${sitePath}/${notePath}`, {
+      ...options,
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({
+        note: {
+          body,
+          visibility,
+        },
+      }),
+    });
+    const updated = await parseJSON(response, assertNote, validate);
+    indexNote(sitePath, updated);
+    return updated;
+  }
+
+  /**
+   * Update only some fields of a note, the ones missing keep their current
+   * value.
+   *
+   * The current note is fetched first, when `ifUnmodifiedSince` is set and the
+   * note was updated after that date it throws a `ConflictError` instead of
+   * overwriting the changes. The check and the update are two requests, so a
+   * change done between them can still be overwritten.
+   *
+   * @function
+   * @async
+   * @param {string} sitePath - The path of the site (e.g.`blog`)
+   * @param {string} notePath - The path of the note (e.g. `api`)
+   * @param {{ body?: string; visibility?: NoteVisibility; frontMatter?: FrontMatter }} changes - The fields to change, the front matter replaces the one in the body
+   * @param {{ ifUnmodifiedSince?: ISODate } & CallOptions} [options] - The `updated_at` of the note when it was last read, the signal to abort the requests and their timeout
+   * @returns {Promise<Note>} - The updated note data
+   */
+  async function patch(
+    sitePath: string,
+    notePath: string,
+    changes: {
+      body?: string;
+      visibility?: NoteVisibility;
+      frontMatter?: FrontMatter;
+    },
+    {
+      ifUnmodifiedSince,
+      ...options
+    }: { ifUnmodifiedSince?: ISODate } & CallOptions = {}
   ): Promise<Note> {
-    const { body, visibility } = note;
-    const response = await fetch(
-      `https://collectednotes.com/${sitePath}/${notePath}`,
+    const current = await read(sitePath, notePath, 'json', options);
+
+    if (
+      ifUnmodifiedSince !== undefined &&
+      Date.parse(current.updated_at) > Date.parse(ifUnmodifiedSince)
+    ) {
+      throw new ConflictError({
+        sitePath,
+        notePath,
+        expected: ifUnmodifiedSince,
+        actual: current.updated_at,
+      });
+    }
+
+    return await update(
+      sitePath,
+      notePath,
       {
-        method: 'PUT',
-        headers,
-        body: JSON.stringify({
-          note: {
-            body,
-            visibility,
-          },
-        }),
-      }
+        body: changes.body ?? current.body,
+        visibility: changes.visibility ?? current.visibility,
+        frontMatter: changes.frontMatter,
+      },
+      options
     );
-    return await response.json();
   }
 
   /**
@@ -619,16 +984,24 @@ export function collectedNotes(email: Email, token: string) {
    * @async
    * @param {string} sitePath - The path of the site (e.g. `blog`)
    * @param {string} notePath - The path of the note (e.g. `api`)
+   * @param {CallOptions} [options] - The signal to abort the request and its timeout
    * @returns {Promise<void>} - This method returns nothing
    */
-  async function destroy(sitePath: string, notePath: string): Promise<void> {
-    await fetch(
-      `https://collectednotes.com/sites/${sitePath}/notes/${notePath}`,
-      {
-        headers,
-        method: 'DELETE',
+  async function destroy(
+    sitePath: string,
+    notePath: string,
+    options: CallOptions = {}
+  ): Promise<void> {
+    await request(`/sites/${sitePath}/notes/${notePath}`, {
+      ...options,
+      headers,
+      method: 'DELETE',
+    });
+    noteIndex.forEach((location, id) => {
+      if (location.sitePath === sitePath && location.notePath === notePath) {
+        noteIndex.delete(id);
       }
-    );
+    });
   }
 
   /**
@@ -636,13 +1009,12 @@ export function collectedNotes(email: Email, token: string) {
    *
    * @function
    * @async
+   * @param {CallOptions} [options] - The signal to abort the request and its timeout
    * @returns {Promise<User>} - The user information
    */
-  async function me(): Promise<User> {
-    const response = await fetch('https://collectednotes.com/accounts/me', {
-      headers,
-    });
-    return await response.json();
+  async function me(options: CallOptions = {}): Promise<User> {
+    const response = await request('/accounts/me', { ...options, headers });
+    return await parseJSON(response, assertUser, validate);
   }
 
   /**
@@ -652,23 +1024,23 @@ export function collectedNotes(email: Email, token: string) {
    * @async
    * @param {string} sitePath - The path of the site (e.g. `blog`)
    * @param {ID[]} noteIdList - The sorted ids of the notes
+   * @param {CallOptions} [options] - The signal to abort the request and its timeout
    * @returns {Promise<number[]>} - The final sorted ids as stored in Collected Notes
    */
   async function reorder(
     sitePath: string,
-    noteIdList: ID[]
+    noteIdList: ID[],
+    options: CallOptions = {}
   ): Promise<number[]> {
-    const response = await fetch(
-      `https://collectednotes.com/sites/${sitePath}/notes/reorder`,
-      {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          ids: noteIdList,
-        }),
-      }
-    );
-    return await response.json();
+    const response = await request(`/sites/${sitePath}/notes/reorder`, {
+      ...options,
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        ids: noteIdList,
+      }),
+    });
+    return await parseJSON(response, assertIds, validate);
   }
 
   /**
@@ -680,27 +1052,305 @@ export function collectedNotes(email: Email, token: string) {
    * @function
    * @async
    * @param {string} sitePath - The path of the site (e.g. `blog`)
-   * @param {string} term - The search term, it will be encoded as a valid URI
+   * @param {string} term - The search term, it will be encoded as a URI component
    * @param {number} [page=1] - The page of the results, by default is `1`
    * @param {NoteVisibility} [visibility] - The visibility of the notes your are trying to search for
+   * @param {CallOptions} [options] - The signal to abort the request and its timeout
    * @returns {Promise<Note[]>} - The list of notes matching the search term
    */
   async function search(
     sitePath: string,
     term: string,
     page: number = 1,
-    visibility?: NoteVisibility
+    visibility?: NoteVisibility,
+    options: CallOptions = {}
   ): Promise<Note[]> {
-    const encodedTerm = encodeURI(term);
+    const encodedTerm = encodeURIComponent(term);
     const url = visibility
-      ? `https://collectednotes.com/sites/${sitePath}/notes/search?term=${encodedTerm}&page=${page}&visibility=${visibility}`
-      : `https://collectednotes.com/sites/${sitePath}/notes/search?term=${encodedTerm}&page=${page}`;
+      ? `/sites/${sitePath}/notes/search?term=${encodedTerm}&page=${page}&visibility=${visibility}`
+      : `/sites/${sitePath}/notes/search?term=${encodedTerm}&page=${page}`;
 
-    const response = await fetch(url, {
+    const response = await request(url, {
+      ...options,
       method: 'GET',
       headers,
     });
-    return await response.json();
+    return await parseJSON(response, assertNotes, validate);
+  }
+
+  /**
+   * Iterate every note of a Collected Notes site, public and private, fetching
+   * the pages of `latestNotes` until one of them is empty.
+   *
+   * @function
+   * @param {string} sitePath - The path of the site (e.g. `blog`)
+   * @param {{ visibility?: NoteVisibility } & PaginateOptions & CallOptions} [options] - The visibility of the notes, the maximum number of pages, the concurrency and the signal to abort the requests
+   * @returns {AsyncIterable<Note>} - Every note of the site
+   */
+  function iterateNotes(
+    sitePath: string,
+    {
+      visibility,
+      signal,
+      timeout,
+      ...paginateOptions
+    }: { visibility?: NoteVisibility } & PaginateOptions & CallOptions = {}
+  ): AsyncIterable<Note> {
+    return paginate(
+      page => latestNotes(sitePath, page, visibility, { signal, timeout }),
+      paginateOptions
+    );
+  }
+
+  /**
+   * Iterate every note matching a search term, fetching the pages of `search`
+   * until one of them is empty.
+   *
+   * @function
+   * @param {string} sitePath - The path of the site (e.g. `blog`)
+   * @param {string} term - The search term, it will be encoded as a URI component
+   * @param {{ visibility?: NoteVisibility } & PaginateOptions & CallOptions} [options] - The visibility of the notes, the maximum number of pages, the concurrency and the signal to abort the requests
+   * @returns {AsyncIterable<Note>} - Every note matching the search term
+   */
+  function iterateSearch(
+    sitePath: string,
+    term: string,
+    {
+      visibility,
+      signal,
+      timeout,
+      ...paginateOptions
+    }: { visibility?: NoteVisibility } & PaginateOptions & CallOptions = {}
+  ): AsyncIterable<Note> {
+    return paginate(
+      page => search(sitePath, term, page, visibility, { signal, timeout }),
+      paginateOptions
+    );
+  }
+
+  /**
+   * Get every note of a Collected Notes site, public and private, reading all
+   * the pages of `latestNotes`.
+   *
+   * @function
+   * @async
+   * @param {string} sitePath - The path of the site (e.g. `blog`)
+   * @param {{ visibility?: NoteVisibility } & PaginateOptions & CallOptions} [options] - The visibility of the notes, the maximum number of pages, the concurrency and the signal to abort the requests
+   * @returns {Promise<Note[]>} - The list of notes
+   */
+  async function allNotes(
+    sitePath: string,
+    options: { visibility?: NoteVisibility } & PaginateOptions &
+      CallOptions = {}
+  ): Promise<Note[]> {
+    const notes: Note[] = [];
+    for await (const note of iterateNotes(sitePath, options)) notes.push(note);
+    return notes;
+  }
+
+  /**
+   * Read every note of every site of the user, indexing their location.
+   * Concurrent calls share the same scan.
+   */
+  async function buildIndex(options: CallOptions): Promise<void> {
+    if (!indexing) {
+      indexing = (async () => {
+        try {
+          for (const site of await sites(options)) {
+            await allNotes(site.site_path, options);
+          }
+        } finally {
+          indexing = null;
+        }
+      })();
+    }
+    return await indexing;
+  }
+
+  /**
+   * Get the site and note paths of a note from its ID.
+   *
+   * The client keeps an index with the location of every note it reads,
+   * creates or updates. If the note is not in the index every note of every
+   * site is read to find it.
+   *
+   * @function
+   * @async
+   * @param {ID} id - The ID of the note
+   * @param {CallOptions} [options] - The signal to abort the requests and their timeout
+   * @returns {Promise<NoteLocation | null>} - The site and note paths, `null` if there is no note with the ID
+   */
+  async function resolvePath(
+    id: ID,
+    options: CallOptions = {}
+  ): Promise<NoteLocation | null> {
+    if (!noteIndex.has(id)) await buildIndex(options);
+    return noteIndex.get(id) ?? null;
+  }
+
+  /**
+   * Get a note from its ID.
+   *
+   * The path of the note is resolved with `resolvePath`, if the note was
+   * renamed or deleted since it was indexed the notes are read again to find
+   * its new path.
+   *
+   * @function
+   * @async
+   * @param {ID} id - The ID of the note
+   * @param {CallOptions} [options] - The signal to abort the requests and their timeout
+   * @returns {Promise<Note | null>} - The note, `null` if there is no note with the ID
+   */
+  async function getNoteById(
+    id: ID,
+    options: CallOptions = {}
+  ): Promise<Note | null> {
+    let wasIndexed = noteIndex.has(id);
+    for (;;) {
+      const location = await resolvePath(id, options);
+      if (!location) return null;
+      try {
+        const response = await request(
+          `/${location.sitePath}/${location.notePath}.json`,
+          { ...options, headers }
+        );
+        const note = await parseJSON(response, assertNote, validate);
+        indexNote(location.sitePath, note);
+        return note;
+      } catch (error) {
+        // only a stale location is worth looking up again
+        if (!(error instanceof NotFoundError) || !wasIndexed) throw error;
+        noteIndex.delete(id);
+        wasIndexed = false;
+      }
+    }
+  }
+
+  /**
+   * Read every note of a site, sort them with the given function, and save
+   * the new order, checking the API stored it as sent.
+   */
+  async function applyOrder(
+    sitePath: string,
+    sort: (notes: Note[]) => ID[],
+    options: CallOptions
+  ): Promise<ID[]> {
+    const notes = (await allNotes(sitePath, options)).sort(
+      (a, b) => a.ordering - b.ordering
+    );
+    const expected = sort(notes);
+    const received = await reorder(sitePath, expected, options);
+    const matches =
+      received.length === expected.length &&
+      received.every((id, index) => id === expected[index]);
+    if (!matches) throw new ReorderError({ expected, received });
+    return received;
+  }
+
+  /**
+   * Move a note before or after another note, or to a position, keeping the
+   * order of the rest of the notes.
+   *
+   * @function
+   * @async
+   * @param {string} sitePath - The path of the site (e.g. `blog`)
+   * @param {ID} noteId - The ID of the note to move
+   * @param {NotePosition} position - The note to place it `before` or `after`, or the index `toIndex` starting at `0`
+   * @param {CallOptions} [options] - The signal to abort the requests and their timeout
+   * @returns {Promise<ID[]>} - The sorted ids as stored in Collected Notes
+   */
+  async function moveNote(
+    sitePath: string,
+    noteId: ID,
+    position: NotePosition,
+    options: CallOptions = {}
+  ): Promise<ID[]> {
+    return await applyOrder(
+      sitePath,
+      notes => {
+        const ids = notes.map(note => note.id);
+        const index = ids.indexOf(noteId);
+        if (index === -1) {
+          throw new RangeError(`The note ${noteId} is not in ${sitePath}`);
+        }
+        ids.splice(index, 1);
+
+        let target: number;
+        if ('toIndex' in position) {
+          target = Math.max(0, Math.min(position.toIndex, ids.length));
+        } else {
+          const reference =
+            'before' in position ? position.before : position.after;
+          target = ids.indexOf(reference);
+          if (target === -1) {
+            throw new RangeError(`The note ${reference} is not in ${sitePath}`);
+          }
+          if ('after' in position) target++;
+        }
+        ids.splice(target, 0, noteId);
+        return ids;
+      },
+      options
+    );
+  }
+
+  /**
+   * Sort every note of a site, by title or date in ascending order, or with
+   * a compare function.
+   *
+   * @function
+   * @async
+   * @param {string} sitePath - The path of the site (e.g. `blog`)
+   * @param {NoteSortKey | ((a: Note, b: Note) => number)} by - The field to sort by or the compare function
+   * @param {CallOptions} [options] - The signal to abort the requests and their timeout
+   * @returns {Promise<ID[]>} - The sorted ids as stored in Collected Notes
+   */
+  async function sortNotes(
+    sitePath: string,
+    by: NoteSortKey | ((a: Note, b: Note) => number),
+    options: CallOptions = {}
+  ): Promise<ID[]> {
+    const compare =
+      typeof by === 'function'
+        ? by
+        : by === 'title'
+        ? (a: Note, b: Note) => a.title.localeCompare(b.title)
+        : (a: Note, b: Note) => Date.parse(a[by]) - Date.parse(b[by]);
+    return await applyOrder(
+      sitePath,
+      notes => notes.sort(compare).map(note => note.id),
+      options
+    );
+  }
+
+  /**
+   * Move some notes to the top of a site, in the given order, keeping the
+   * order of the rest of the notes.
+   *
+   * @function
+   * @async
+   * @param {string} sitePath - The path of the site (e.g. `blog`)
+   * @param {ID[]} noteIds - The IDs of the notes to move to the top
+   * @param {CallOptions} [options] - The signal to abort the requests and their timeout
+   * @returns {Promise<ID[]>} - The sorted ids as stored in Collected Notes
+   */
+  async function pinToTop(
+    sitePath: string,
+    noteIds: ID[],
+    options: CallOptions = {}
+  ): Promise<ID[]> {
+    return await applyOrder(
+      sitePath,
+      notes => {
+        const ids = notes.map(note => note.id);
+        const missing = noteIds.find(id => !ids.includes(id));
+        if (missing !== undefined) {
+          throw new RangeError(`The note ${missing} is not in ${sitePath}`);
+        }
+        return [...noteIds, ...ids.filter(id => !noteIds.includes(id))];
+      },
+      options
+    );
   }
 
   /**
@@ -710,23 +1360,23 @@ export function collectedNotes(email: Email, token: string) {
    * @async
    * @param {string} sitePath - The path of the site (e.g. `blog`)
    * @param {string} notePath - The path of the note (e.g. `api`)
+   * @param {CallOptions} [options] - The signal to abort the request and its timeout
    * @returns {Promise<{ note:Note, body:HTML }>} - The note together with the HTML already parsed
    */
   async function body(
     sitePath: string,
-    notePath: string
+    notePath: string,
+    options: CallOptions = {}
   ): Promise<{
     note: Note;
     body: HTML;
   }> {
-    const response = await fetch(
-      `https://collectednotes.com/${sitePath}/${notePath}/body`,
-      {
-        method: 'GET',
-        headers,
-      }
-    );
-    return await response.json();
+    const response = await request(`/${sitePath}/${notePath}/body`, {
+      ...options,
+      method: 'GET',
+      headers,
+    });
+    return await parseJSON(response, assertNoteBody, validate);
   }
 
   /**
@@ -737,33 +1387,162 @@ export function collectedNotes(email: Email, token: string) {
    * @param {string} sitePath - The path of the site (e.g. `blog`)
    * @param {string} notePath - The path of the note (e.g. `api`)
    * @param {('json' | 'html')} [format='json'] - The format you want to get the notes
+   * @param {CallOptions} [options] - The signal to abort the request and its timeout
    * @returns {Promise<Link[] | HTML>}
    */
   async function links(
     sitePath: string,
     notePath: string,
-    format?: 'json'
+    format?: 'json',
+    options?: CallOptions
   ): Promise<Link[]>;
   async function links(
     sitePath: string,
     notePath: string,
-    format: 'html'
+    format: 'html',
+    options?: CallOptions
   ): Promise<HTML>;
   async function links(
     sitePath: string,
     notePath: string,
-    format: 'json' | 'html' = 'json'
+    format: 'json' | 'html' = 'json',
+    options: CallOptions = {}
   ): Promise<Link[] | HTML> {
-    const response = await fetch(
-      `https://collectednotes.com/sites/${sitePath}/notes/${notePath}/links${
+    const response = await request(
+      `/sites/${sitePath}/notes/${notePath}/links${
         format === 'json' ? '.json' : ''
       }`,
       {
+        ...options,
         method: 'GET',
         headers,
       }
     );
-    return await response.json();
+    return format === 'json'
+      ? await parseJSON(response, assertLinks, validate)
+      : await response.text();
+  }
+
+  /**
+   * Get a note based using the site and note path.
+   * The request is sent with the credentials of the client, so the private
+   * notes of the user can be read too, and it uses the same options of the
+   * client. Use the `read` function to read public notes with a cache.
+   *
+   * @function
+   * @async
+   * @param {string} sitePath - The path of the site (e.g. `blog`)
+   * @param {string} notePath - The path of the note (e.g. `api`)
+   * @param {'json' | 'md' | 'txt'} [format="json"] - The format you expected the note
+   * @param {CallOptions} [options] - The signal to abort the request and its timeout
+   * @returns {Promise<Note | string | Markdown>} - The note, in the format specified in the params
+   */
+  async function read(
+    sitePath: string,
+    notePath: string,
+    format?: 'json',
+    options?: CallOptions
+  ): Promise<Note>;
+  async function read(
+    sitePath: string,
+    notePath: string,
+    format: 'md',
+    options?: CallOptions
+  ): Promise<Markdown>;
+  async function read(
+    sitePath: string,
+    notePath: string,
+    format: 'txt',
+    options?: CallOptions
+  ): Promise<string>;
+  async function read(
+    sitePath: string,
+    notePath: string,
+    format: NoteFormat = 'json',
+    options: CallOptions = {}
+  ): Promise<Note | string | Markdown> {
+    return await readNote(
+      request,
+      sitePath,
+      notePath,
+      format,
+      { ...options, headers: { Authorization: headers.Authorization } },
+      validate
+    );
+  }
+
+  /**
+   * Build the sitemap of a site, with the home page and a page for each
+   * note using `updated_at` as the last modification date.
+   *
+   * It returns the files to write by their name, `sitemap.xml` is always
+   * included. When there are more URLs than `maxUrls` the URLs are split in
+   * `sitemap-1.xml`, `sitemap-2.xml`, etc. and `sitemap.xml` is an index
+   * pointing to them.
+   *
+   * @function
+   * @async
+   * @param {string} sitePath - The path of the site (e.g. `blog`)
+   * @param {SitemapOptions} [sitemapOptions] - The base URL, the visibility of the notes included and the maximum URLs of each sitemap
+   * @param {CallOptions} [options] - The signal to abort the requests and their timeout
+   * @returns {Promise<Record<string, XML>>} - The sitemap files by their name
+   */
+  async function sitemap(
+    sitePath: string,
+    sitemapOptions: SitemapOptions = {},
+    options: CallOptions = {}
+  ): Promise<Record<string, XML>> {
+    const {
+      visibility = ['public', 'public_site'],
+      maxUrls = MAX_SITEMAP_URLS,
+    } = sitemapOptions;
+    const visibilities = Array.isArray(visibility) ? visibility : [visibility];
+
+    const [userSites, notes] = await Promise.all([
+      sites(options),
+      allNotes(sitePath, options),
+    ]);
+    const siteInfo = userSites.find(({ site_path }) => site_path === sitePath);
+    const baseUrl = (
+      sitemapOptions.baseUrl ??
+      (siteInfo?.domain
+        ? `https://${siteInfo.domain}`
+        : `${DEFAULT_BASE_URL}/${sitePath}`)
+    ).replace(/\/+$/, '');
+
+    const entries: SitemapEntry[] = [
+      { loc: `${baseUrl}/`, lastmod: siteInfo?.updated_at },
+      ...notes
+        .filter(note => visibilities.includes(note.visibility))
+        .map(note => ({
+          loc: `${baseUrl}/${note.path}`,
+          lastmod: note.updated_at,
+        })),
+    ];
+
+    if (entries.length <= maxUrls) {
+      return { 'sitemap.xml': renderSitemap(entries) };
+    }
+
+    const files: Record<string, XML> = {};
+    const sitemaps: SitemapEntry[] = [];
+    for (let i = 0; i * maxUrls < entries.length; i++) {
+      const chunk = entries.slice(i * maxUrls, (i + 1) * maxUrls);
+      const name = `sitemap-${i + 1}.xml`;
+      files[name] = renderSitemap(chunk);
+      sitemaps.push({
+        loc: `${baseUrl}/${name}`,
+        lastmod: chunk.reduce<ISODate | undefined>(
+          (latest, { lastmod }) =>
+            lastmod && (!latest || Date.parse(lastmod) > Date.parse(latest))
+              ? lastmod
+              : latest,
+          undefined
+        ),
+      });
+    }
+    files['sitemap.xml'] = renderSitemapIndex(sitemaps);
+    return files;
   }
 
   /**
@@ -776,70 +1555,104 @@ export function collectedNotes(email: Email, token: string) {
    * @param {string} sitePath - The path of the site (e.g. `blog`)
    * @param {number} [page=1] - The page of the results, by default is `1`
    * @param {NoteVisibility} [visibility] - The visibility of the notes you are trying to fetch.
+   * @param {CallOptions} [options] - The signal to abort the request and its timeout
    * @returns {Promise<{ site: Site; notes: Note[] }>} - An object with the site and the list of notes
    */
   async function site(
     sitePath: string,
     page: number = 1,
-    visibility?: NoteVisibility
+    visibility?: NoteVisibility,
+    options: CallOptions = {}
   ): Promise<{
     site: Site;
     notes: Note[];
   }> {
     const url = visibility
-      ? `https://collectednotes.com/${sitePath}.json?page=${page}&visibility=${visibility}`
-      : `https://collectednotes.com/${sitePath}.json?page=${page}`;
-    const response = await fetch(url, {
+      ? `/${sitePath}.json?page=${page}&visibility=${visibility}`
+      : `/${sitePath}.json?page=${page}`;
+    const response = await request(url, {
+      ...options,
       method: 'GET',
       headers,
     });
-    return await response.json();
+    return await parseJSON(response, assertSiteData, validate);
   }
 
   /**
    *
    * @param {string} sitePath - The path of the site (e.g. `blog`)
    * @param {NoteVisibility} [visibility] - The visibility of the notes you are
-   * @param {Pick<JSONFeed, 'home_page_url' | 'feed_url'>} feedOptions - Extra information required to build the feed
-   * @param {('json' | 'xml')} [format='json'] - The format you want to get the feed
+   * @param {FeedBuildOptions} feedOptions - Extra information required to build the feed, and the limits of the notes included
+   * @param {('json' | 'xml' | 'atom')} [format='json'] - The format you want to get the feed
+   * @param {CallOptions} [options] - The signal to abort the requests and their timeout
    */
   async function feed(
     sitePath: string,
     visibility: NoteVisibility,
-    feedOptions: Pick<JSONFeed, 'home_page_url' | 'feed_url'>,
-    format: 'json'
+    feedOptions: FeedBuildOptions,
+    format: 'json',
+    options?: CallOptions
   ): Promise<JSONFeed>;
   async function feed(
     sitePath: string,
     visibility: NoteVisibility,
-    feedOptions: Pick<JSONFeed, 'home_page_url' | 'feed_url'>,
-    format: 'xml'
+    feedOptions: FeedBuildOptions,
+    format: 'xml' | 'atom',
+    options?: CallOptions
   ): Promise<XML>;
   async function feed(
     sitePath: string,
     visibility: NoteVisibility,
-    feedOptions: Pick<JSONFeed, 'home_page_url' | 'feed_url'>,
-    format: FeedFormat = 'json'
+    feedOptions: FeedBuildOptions,
+    format: FeedFormat = 'json',
+    options: CallOptions = {}
   ): Promise<JSONFeed | XML> {
-    let [{ notes, site: siteInfo }, user] = await Promise.all([
-      site(sitePath, 1, visibility),
-      me(),
-    ]);
+    let { limit = Infinity, since, concurrency = 4, ...feedInfo } = feedOptions;
+    let sinceTime = since === undefined ? -Infinity : new Date(since).getTime();
+
+    let siteInfo: Site | undefined;
+    let notes: Note[] = [];
+    let userPromise = me(options);
 
-    let noteBodies = await Promise.all(
-      notes.map(note => body(sitePath, note.path))
+    // notes are sorted by `ordering`, so every page has to be read to find all
+    // the notes updated since the date
+    let pages = paginate(async page => {
+      let data = await site(sitePath, page, visibility, options);
+      siteInfo = data.site;
+      return data.notes;
+    });
+    if (limit > 0) {
+      for await (let note of pages) {
+        if (new Date(note.updated_at).getTime() <= sinceTime) continue;
+        notes.push(note);
+        if (notes.length >= limit) break;
+      }
+    }
+
+    let user = await userPromise;
+    if (!siteInfo) {
+      siteInfo = (await site(sitePath, 1, visibility, options)).site;
+    }
+
+    let noteBodies = await mapWithConcurrency(notes, concurrency, note =>
+      body(sitePath, note.path, options)
     );
 
+    let author = {
+      name: user.name,
+      avatar: user.avatar_key,
+    };
+
     let feed: JSONFeed = {
-      version: 'https://jsonfeed.org/version/1',
+      version: 'https://jsonfeed.org/version/1.1',
       title: siteInfo.name,
-      ...feedOptions,
-      author: {
-        name: user.name,
-        avatar: user.avatar_key,
-      },
+      description: siteInfo.headline,
+      ...feedInfo,
+      author,
+      authors: [author],
       items: noteBodies.map(({ note, body }) => {
         let url = new URL(note.path, feedOptions.home_page_url);
+        let tags = extractTags(note.body);
         return {
           id: note.id.toString(),
           url: url.toString(),
@@ -850,34 +1663,202 @@ export function collectedNotes(email: Email, token: string) {
           date_modified: note.updated_at,
           image: note.poster ?? undefined,
           summary: note.headline,
+          tags: tags.length > 0 ? tags : undefined,
         };
       }),
     };
 
     if (format === 'json') return feed;
 
-    return `
-    <?xml version="1.0" encoding="UTF-8" ?>
-    <rss version="2.0">
-      <channel>
-        <title>${siteInfo.name}</title>
-        <description>${siteInfo.headline}</description>
-        <link>${feedOptions.home_page_url}</link>
-        <lastBuildDate>${new Date().toString()}</lastBuildDate>
-        <pubDate>${new Date().toString()}</pubDate>
-        ${feed.items.map(item => {
-          return `
-            <item>
-              <title>${item.title}</title>
-              <link>${item.url}</link>
-              <pubDate>${item.date_published}</pubDate>
-              <description>${item.summary}</description>
-            </item>
-          `;
-        })}
-      </channel>
-    </rss>
-    `;
+    if (format === 'atom') return renderAtom(feed, siteInfo, user);
+    return renderRSS(feed, siteInfo, user);
+  }
+
+  /**
+   * Run a request with the Fetch API implementation of the client, the one
+   * passed as the `fetch` option or the global one, without the credentials,
+   * retries or middleware used for the API. Use it to request other sites,
+   * e.g. the links of the notes.
+   *
+   * @function
+   * @async
+   * @param {RequestInfo} input - The URL or the request
+   * @param {RequestInit} [init] - The method, headers and body of the request
+   * @returns {Promise<Response>} - The response
+   */
+  function clientFetch(
+    input: RequestInfo,
+    init?: RequestInit
+  ): Promise<Response> {
+    return (options.fetch ?? fetch)(input, init);
+  }
+
+  /**
+   * Add a middleware running around every attempt of the requests of the
+   * client, after the ones already added, e.g. to add a header or log the
+   * responses.
+   *
+   * @function
+   * @param {Middleware} fn - The middleware, it receives the request and the function to continue with it
+   * @returns {() => void} - A function to remove the middleware
+   */
+  function use(fn: Middleware): () => void {
+    middleware.push(fn);
+    return () => {
+      const index = middleware.indexOf(fn);
+      if (index !== -1) middleware.splice(index, 1);
+    };
+  }
+
+  /**
+   * Get the methods of the client used with a single site, with the path of
+   * the site already bound, e.g. `cn.forSite('blog').read('api')`.
+   *
+   * Without a site path the `defaultSite` of the client is used, it's checked
+   * against the sites of the user on the first call of any method.
+   *
+   * @function
+   * @param {string} [sitePath] - The path of the site (e.g. `blog`), by default is the `defaultSite` of the client
+   * @returns {SiteClient} - The methods bound to the site
+   */
+  function forSite(sitePath?: string) {
+    if (sitePath === undefined && defaultSite === undefined) {
+      throw new TypeError(
+        'A site path is required when the client has no defaultSite'
+      );
+    }
+    const boundPath = sitePath ?? (defaultSite as string);
+
+    async function resolveSite(options: CallOptions): Promise<string> {
+      return sitePath ?? (await resolveDefaultSite(options));
+    }
+
+    async function siteNotes(
+      page: number = 1,
+      visibility?: NoteVisibility,
+      options: CallOptions = {}
+    ): Promise<Note[]> {
+      return await latestNotes(
+        await resolveSite(options),
+        page,
+        visibility,
+        options
+      );
+    }
+
+    async function siteCreate(
+      note: {
+        body: string;
+        visibility: NoteVisibility;
+        frontMatter?: FrontMatter;
+      },
+      options: CallOptions = {}
+    ): Promise<Note> {
+      return await create(note, await resolveSite(options), options);
+    }
+
+    async function siteRead(
+      notePath: string,
+      format?: 'json',
+      options?: CallOptions
+    ): Promise<Note>;
+    async function siteRead(
+      notePath: string,
+      format: 'md',
+      options?: CallOptions
+    ): Promise<Markdown>;
+    async function siteRead(
+      notePath: string,
+      format: 'txt',
+      options?: CallOptions
+    ): Promise<string>;
+    async function siteRead(
+      notePath: string,
+      format: NoteFormat = 'json',
+      options: CallOptions = {}
+    ): Promise<Note | string | Markdown> {
+      const site = await resolveSite(options);
+      return await readNote(
+        request,
+        site,
+        notePath,
+        format,
+        { ...options, headers: { Authorization: headers.Authorization } },
+        validate
+      );
+    }
+
+    async function siteUpdate(
+      notePath: string,
+      note: {
+        body: string;
+        visibility: NoteVisibility;
+        frontMatter?: FrontMatter;
+      },
+      options: CallOptions = {}
+    ): Promise<Note> {
+      return await update(await resolveSite(options), notePath, note, options);
+    }
+
+    async function siteDestroy(
+      notePath: string,
+      options: CallOptions = {}
+    ): Promise<void> {
+      await destroy(await resolveSite(options), notePath, options);
+    }
+
+    async function siteSearch(
+      term: string,
+      page: number = 1,
+      visibility?: NoteVisibility,
+      options: CallOptions = {}
+    ): Promise<Note[]> {
+      const site = await resolveSite(options);
+      return await search(site, term, page, visibility, options);
+    }
+
+    async function siteReorder(
+      noteIdList: ID[],
+      options: CallOptions = {}
+    ): Promise<number[]> {
+      return await reorder(await resolveSite(options), noteIdList, options);
+    }
+
+    async function siteFeed(
+      visibility: NoteVisibility,
+      feedOptions: FeedBuildOptions,
+      format: 'json',
+      options?: CallOptions
+    ): Promise<JSONFeed>;
+    async function siteFeed(
+      visibility: NoteVisibility,
+      feedOptions: FeedBuildOptions,
+      format: 'xml' | 'atom',
+      options?: CallOptions
+    ): Promise<XML>;
+    async function siteFeed(
+      visibility: NoteVisibility,
+      feedOptions: FeedBuildOptions,
+      format: FeedFormat = 'json',
+      options: CallOptions = {}
+    ): Promise<JSONFeed | XML> {
+      const site = await resolveSite(options);
+      return format === 'json'
+        ? await feed(site, visibility, feedOptions, format, options)
+        : await feed(site, visibility, feedOptions, format, options);
+    }
+
+    return {
+      sitePath: boundPath,
+      notes: siteNotes,
+      create: siteCreate,
+      read: siteRead,
+      update: siteUpdate,
+      destroy: siteDestroy,
+      search: siteSearch,
+      reorder: siteReorder,
+      feed: siteFeed,
+    } as const;
   }
 
   return {
@@ -887,16 +1868,41 @@ export function collectedNotes(email: Email, token: string) {
     create,
     read,
     update,
+    patch,
     destroy,
     me,
     reorder,
+    moveNote,
+    sortNotes,
+    pinToTop,
     search,
+    iterateNotes,
+    iterateSearch,
+    allNotes,
+    resolvePath,
+    getNoteById,
     body,
     links,
     feed,
+    sitemap,
+    forSite,
+    fetch: clientFetch,
+    use,
   } as const;
 }
 
+/**
+ * A client of the API, as returned by `collectedNotes`.
+ * @export
+ */
+export type CollectedNotesClient = ReturnType<typeof collectedNotes>;
+
+/**
+ * The methods of a client bound to a site, as returned by `forSite`.
+ * @export
+ */
+export type SiteClient = ReturnType<CollectedNotesClient['forSite']>;
+
 /**
  * Get the data of a site and their public notes.
  * This method is public and doesn't require authentication.
@@ -907,15 +1913,44 @@ export function collectedNotes(email: Email, token: string) {
  * @async
  * @param {string} sitePath - The path of the site (e.g. `blog`)
  * @param {number} [page=1] - The page of the results, by default is `1`
+ * @param {ClientOptions & CallOptions} [options] - The options of the client, the signal to abort the request and its timeout
  * @returns {Promise<{ site: Site; notes: Note[] }>} - An object with the site and the list of notes
  */
 export async function site(
   sitePath: string,
-  page: number = 1
+  page: number = 1,
+  options: ClientOptions & CallOptions = {}
 ): Promise<{ site: Site; notes: Note[] }> {
-  const url = `https://collectednotes.com/${sitePath}.json?page=${page}`;
-  const response = await fetch(url, { headers: basicHeaders });
-  return await response.json();
+  const request = createRequest(options);
+  const response = await request(`/${sitePath}.json?page=${page}`, {
+    signal: options.signal,
+    headers: basicHeaders,
+  });
+  return await parseJSON(response, assertSiteData, options.validate);
+}
+
+async function readNote(
+  request: ReturnType<typeof createRequest>,
+  sitePath: string,
+  notePath: string,
+  format: NoteFormat,
+  options: RequestOptions,
+  validate?: boolean
+): Promise<Note | string | Markdown> {
+  switch (format) {
+    case 'json': {
+      const response = await request(`/${sitePath}/${notePath}.json`, options);
+      return await parseJSON(response, assertNote, validate);
+    }
+    case 'md': {
+      const response = await request(`/${sitePath}/${notePath}.md`, options);
+      return await response.text();
+    }
+    case 'txt': {
+      const response = await request(`/${sitePath}/${notePath}.text`, options);
+      return await response.text();
+    }
+  }
 }
 
 /**
@@ -930,48 +1965,41 @@ export async function site(
  * @param {string} sitePath - The path of the site (e.g. `blog`)
  * @param {string} notePath - The path of the note (e.g. `api`)
  * @param {'json' | 'md' | 'txt'} [format="json"] - The format you expected the note
+ * @param {ClientOptions & CallOptions} [options] - The options of the client, the signal to abort the request and its timeout
  * @returns {Promise<Note | string | Markdown>} - The note, in the format specified in the params
  */
 export async function read(
   sitePath: string,
   notePath: string,
-  format?: 'json'
+  format?: 'json',
+  options?: ClientOptions & CallOptions
 ): Promise<Note>;
 export async function read(
   sitePath: string,
   notePath: string,
-  format: 'md'
+  format: 'md',
+  options?: ClientOptions & CallOptions
 ): Promise<Markdown>;
 export async function read(
   sitePath: string,
   notePath: string,
-  format: 'txt'
+  format: 'txt',
+  options?: ClientOptions & CallOptions
 ): Promise<string>;
 export async function read(
   sitePath: string,
   notePath: string,
-  format: NoteFormat = 'json'
+  format: NoteFormat = 'json',
+  options: ClientOptions & CallOptions = {}
 ): Promise<Note | string | Markdown> {
-  switch (format) {
-    case 'json': {
-      const response = await fetch(
-        `https://collectednotes.com/${sitePath}/${notePath}.json`
-      );
-      return await response.json();
-    }
-    case 'md': {
-      const response = await fetch(
-        `https://collectednotes.com/${sitePath}/${notePath}.md`
-      );
-      return await response.text();
-    }
-    case 'txt': {
-      const response = await fetch(
-        `https://collectednotes.com/${sitePath}/${notePath}.text`
-      );
-      return await response.text();
-    }
-  }
+  return await readNote(
+    createRequest(options),
+    sitePath,
+    notePath,
+    format,
+    { signal: options.signal },
+    options.validate
+  );
 }
 
 /**
@@ -982,15 +2010,18 @@ export async function read(
  * @async
  * @param {string} sitePath - The path of the site (e.g. `blog`)
  * @param {string} notePath - The path of the note (e.g. `api`)
+ * @param {ClientOptions & CallOptions} [options] - The options of the client, the signal to abort the request and its timeout
  * @returns {Promise<{ note:Note, body:HTML }>} - The note together with the HTML already parsed
  */
 export async function body(
   sitePath: string,
-  notePath: string
+  notePath: string,
+  options: ClientOptions & CallOptions = {}
 ): Promise<{ note: Note; body: HTML }> {
-  const response = await fetch(
-    `https://collectednotes.com/${sitePath}/${notePath}/body`,
-    { headers: basicHeaders }
-  );
-  return await response.json();
+  const request = createRequest(options);
+  const response = await request(`/${sitePath}/${notePath}/body`, {
+    signal: options.signal,
+    headers: basicHeaders,
+  });
+  return await parseJSON(response, assertNoteBody, options.validate);
 }
@@ -0,0 +1,298 @@
+import { createLimiter, mapWithConcurrency } from './concurrency';
+import { CollectedNotesClient, Link, Note, NoteVisibility } from './index';
+import { fetchWithTimeout } from './request';
+
+/**
+ * The options to check the external links of a site.
+ * @export
+ */
+export type CheckLinksOptions = {
+  /**
+   * Only check the links of the notes with this visibility, by default every
+   * note is checked.
+   * @type {NoteVisibility}
+   */
+  visibility?: NoteVisibility;
+  /**
+   * The Fetch API implementation used to probe the links, by default it's the
+   * `fetch` of the client.
+   * @type {typeof fetch}
+   */
+  fetch?: typeof fetch;
+  /**
+   * The maximum time in milliseconds every request can take, by default is
+   * `10000`.
+   * @type {number}
+   */
+  timeout?: number;
+  /**
+   * The time in milliseconds after which a link is reported as slow, by
+   * default is `3000`.
+   * @type {number}
+   */
+  slowThreshold?: number;
+  /**
+   * The maximum number of links probed at the same time, by default is `8`.
+   * @type {number}
+   */
+  concurrency?: number;
+  /**
+   * The maximum number of links of the same host probed at the same time, by
+   * default is `2`.
+   * @type {number}
+   */
+  hostConcurrency?: number;
+  /**
+   * The maximum number of redirects followed, by default is `5`.
+   * @type {number}
+   */
+  maxRedirects?: number;
+};
+
+/**
+ * The result of probing an external link.
+ * @export
+ */
+export type LinkCheckResult = {
+  /**
+   * The URL of the link.
+   * @type {Link['url']}
+   */
+  url: Link['url'];
+  /**
+   * The host of the link, as returned by the API.
+   * @type {string}
+   */
+  host: string;
+  /**
+   * The status of the last response, `null` if the request failed.
+   * @type {(number | null)}
+   */
+  status: number | null;
+  /**
+   * The method of the last request, `GET` when `HEAD` failed.
+   * @type {('HEAD' | 'GET')}
+   */
+  method: 'HEAD' | 'GET';
+  /**
+   * The URLs the link redirected to, in order.
+   * @type {string[]}
+   */
+  redirects: string[];
+  /**
+   * The time in milliseconds the probe took, including the redirects.
+   * @type {number}
+   */
+  duration: number;
+  /**
+   * The message of the error if the request failed (e.g. a timeout).
+   * @type {string}
+   */
+  error?: string;
+  /**
+   * If the request failed or the final status is `400` or above.
+   * @type {boolean}
+   */
+  broken: boolean;
+  /**
+   * If the link redirected to another URL.
+   * @type {boolean}
+   */
+  redirected: boolean;
+  /**
+   * If the probe took longer than the `slowThreshold`.
+   * @type {boolean}
+   */
+  slow: boolean;
+};
+
+/**
+ * The report of the external links of a site.
+ * @export
+ */
+export type LinkCheckReport = {
+  /**
+   * The result of every unique link, a link used in many notes is probed
+   * once.
+   * @type {LinkCheckResult[]}
+   */
+  results: LinkCheckResult[];
+  /**
+   * The broken, redirected or slow links of each note, the notes without
+   * problems are not included.
+   * @type {{ note: Pick<Note, 'id' | 'path' | 'title'>; results: LinkCheckResult[] }[]}
+   */
+  byNote: {
+    note: Pick<Note, 'id' | 'path' | 'title'>;
+    results: LinkCheckResult[];
+  }[];
+  /**
+   * The broken, redirected or slow links by their host.
+   * @type {Record<string, LinkCheckResult[]>}
+   */
+  byHost: Record<string, LinkCheckResult[]>;
+};
+
+type ProbeOptions = Required<
+  Pick<CheckLinksOptions, 'fetch' | 'timeout' | 'maxRedirects'>
+>;
+
+function hasProblem(result: LinkCheckResult): boolean {
+  return result.broken || result.redirected || result.slow;
+}
+
+async function request(
+  url: string,
+  method: 'HEAD' | 'GET',
+  { fetch: fetcher, timeout, maxRedirects }: ProbeOptions
+): Promise<{ response: Response; redirects: string[] }> {
+  const redirects: string[] = [];
+  let current = url;
+  for (;;) {
+    const response = await fetchWithTimeout(
+      fetcher,
+      current,
+      { method, redirect: 'manual' },
+      method,
+      timeout
+    );
+    const location = response.headers.get('Location');
+    const isRedirect = response.status >= 300 && response.status < 400;
+    if (!isRedirect || !location || redirects.length >= maxRedirects) {
+      return { response, redirects };
+    }
+    // the body of the redirect is never used
+    await response.body?.cancel().catch(() => {});
+    current = new URL(location, current).toString();
+    redirects.push(current);
+  }
+}
+
+async function probe(
+  link: Link,
+  options: ProbeOptions & { slowThreshold: number }
+): Promise<LinkCheckResult> {
+  const start = Date.now();
+  let method: 'HEAD' | 'GET' = 'HEAD';
+  let result: { response: Response; redirects: string[] } | null = null;
+  let error: string | undefined;
+
+  try {
+    result = await request(link.url, method, options);
+  } catch {
+    result = null;
+  }
+
+  // many servers don't implement HEAD or fail with it, try again with GET
+  if (!result || result.response.status >= 400) {
+    method = 'GET';
+    try {
+      result = await request(link.url, method, options);
+      await result.response.body?.cancel().catch(() => {});
+    } catch (getError) {
+      result = null;
+      error = (getError as Error).message;
+    }
+  }
+
+  const duration = Date.now() - start;
+  const status = result ? result.response.status : null;
+  const redirects = result ? result.redirects : [];
+  return {
+    url: link.url,
+    host: link.host,
+    status,
+    method,
+    redirects,
+    duration,
+    error,
+    broken: status === null || status >= 400,
+    redirected: redirects.length > 0,
+    slow: duration >= options.slowThreshold,
+  };
+}
+
+/**
+ * Probe every external link of the notes of a site to find the broken,
+ * redirected and slow ones.
+ *
+ * Each link is requested with `HEAD`, falling back to `GET` if it fails, and
+ * the redirects are followed one by one to report them. The links are probed
+ * once even if many notes use them, with a limit of concurrent requests per
+ * host to avoid flooding a single server.
+ *
+ * @export
+ * @function
+ * @async
+ * @param {CollectedNotesClient} client - The client used to read the notes and their links
+ * @param {string} sitePath - The path of the site (e.g. `blog`)
+ * @param {CheckLinksOptions} [options] - The fetch, the timeouts and the concurrency of the probes
+ * @returns {Promise<LinkCheckReport>} - Every result and the problems grouped by note and host
+ */
+export async function checkLinks(
+  client: CollectedNotesClient,
+  sitePath: string,
+  {
+    visibility,
+    fetch: fetcher = client.fetch,
+    timeout = 10000,
+    slowThreshold = 3000,
+    concurrency = 8,
+    hostConcurrency = 2,
+    maxRedirects = 5,
+  }: CheckLinksOptions = {}
+): Promise<LinkCheckReport> {
+  const notes = await client.allNotes(sitePath, { visibility });
+  const noteLinks = await mapWithConcurrency(notes, 4, async note =>
+    (await client.links(sitePath, note.path, 'json')).filter(
+      link => link.kind === 'external'
+    )
+  );
+
+  const uniqueLinks = new Map<string, Link>();
+  for (const links of noteLinks) {
+    for (const link of links) {
+      if (!uniqueLinks.has(link.url)) uniqueLinks.set(link.url, link);
+    }
+  }
+
+  const limit = createLimiter(concurrency);
+  const hostLimits = new Map<string, ReturnType<typeof createLimiter>>();
+  const probeOptions = {
+    fetch: fetcher,
+    timeout,
+    maxRedirects,
+    slowThreshold,
+  };
+
+  const results = await Promise.all(
+    Array.from(uniqueLinks.values()).map(link => {
+      let limitHost = hostLimits.get(link.host);
+      if (!limitHost) {
+        limitHost = createLimiter(hostConcurrency);
+        hostLimits.set(link.host, limitHost);
+      }
+      return limitHost(() => limit(() => probe(link, probeOptions)));
+    })
+  );
+
+  const resultsByURL = new Map<string, LinkCheckResult>();
+  for (const result of results) resultsByURL.set(result.url, result);
+
+  const byNote: LinkCheckReport['byNote'] = [];
+  notes.forEach(({ id, path, title }, index) => {
+    const problems = noteLinks[index]
+      .map(link => resultsByURL.get(link.url) as LinkCheckResult)
+      .filter(hasProblem);
+    if (problems.length > 0) {
+      byNote.push({ note: { id, path, title }, results: problems });
+    }
+  });
+
+  const byHost: Record<string, LinkCheckResult[]> = {};
+  for (const result of results.filter(hasProblem)) {
+    (byHost[result.host] = byHost[result.host] ?? []).push(result);
+  }
+
+  return { results, byNote, byHost };
+}
@@ -0,0 +1,248 @@
+import { mapWithConcurrency } from './concurrency';
+import { CollectedNotesClient, ID, Link, Note, NoteVisibility } from './index';
+
+/**
+ * A note inside a link graph.
+ * @export
+ */
+export type LinkGraphNote = Pick<Note, 'id' | 'path' | 'title' | 'url'>;
+
+/**
+ * An internal link between two notes of the same site.
+ * @export
+ */
+export type LinkGraphEdge = {
+  /**
+   * The ID of the note containing the link.
+   * @type {ID}
+   */
+  from: ID;
+  /**
+   * The ID of the linked note.
+   * @type {ID}
+   */
+  to: ID;
+};
+
+/**
+ * An internal link pointing to a note that doesn't exist.
+ * @export
+ */
+export type BrokenLink = {
+  /**
+   * The ID of the note containing the link.
+   * @type {ID}
+   */
+  from: ID;
+  /**
+   * The full URL of the link.
+   * @type {URL}
+   */
+  url: Link['url'];
+  /**
+   * The path of the missing note (e.g. `api`).
+   * @type {string}
+   */
+  path: string;
+};
+
+/**
+ * The notes of a site and how they link to each other. Every field is plain
+ * data so the graph can be saved with `JSON.stringify`.
+ * @export
+ */
+export type LinkGraph = {
+  /**
+   * The path of the site (e.g. `blog`).
+   * @type {string}
+   */
+  sitePath: string;
+  /**
+   * Every note of the site.
+   * @type {LinkGraphNote[]}
+   */
+  notes: LinkGraphNote[];
+  /**
+   * The links between the notes, a link repeated in a note is only included
+   * once.
+   * @type {LinkGraphEdge[]}
+   */
+  links: LinkGraphEdge[];
+  /**
+   * The IDs of the notes linking to each note, by the ID of the linked note.
+   * @type {Record<ID, ID[]>}
+   */
+  backlinks: Record<ID, ID[]>;
+  /**
+   * The IDs of the notes without links from other notes.
+   * @type {ID[]}
+   */
+  orphans: ID[];
+  /**
+   * The internal links pointing to notes that don't exist.
+   * @type {BrokenLink[]}
+   */
+  broken: BrokenLink[];
+};
+
+/**
+ * The options to build a link graph.
+ * @export
+ */
+export type LinkGraphOptions = {
+  /**
+   * Only include the notes with this visibility, by default every note is
+   * included.
+   * @type {NoteVisibility}
+   */
+  visibility?: NoteVisibility;
+  /**
+   * The maximum number of requests to get the links of the notes running at
+   * the same time, by default is `4`.
+   * @type {number}
+   */
+  concurrency?: number;
+};
+
+function normalizeURL(url: string): string | null {
+  try {
+    const { host, pathname } = new URL(url);
+    return `${host}${pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get the path of the note linked by an internal URL of a site, e.g. `api`
+ * from `https://collectednotes.com/blog/api.md`, or `null` if the URL is not
+ * a note of the site.
+ */
+function notePathOf(url: string, sitePath: string): string | null {
+  let pathname: string;
+  try {
+    pathname = new URL(url).pathname;
+  } catch {
+    return null;
+  }
+  const [site, note, ...rest] = pathname.split('/').filter(Boolean);
+  if (site !== sitePath || !note || rest.length > 0) return null;
+  return decodeURIComponent(note).replace(/\.(md|json|text)$/, '');
+}
+
+/**
+ * Read every note of a site and its links to build the graph of how the notes
+ * link to each other.
+ *
+ * An internal link is resolved to a note when it matches the URL of the note,
+ * which works for sites with a custom domain, or its path inside the site
+ * (e.g. `https://collectednotes.com/blog/api`). Links to other sites are
+ * ignored. The links are resolved against every note of the site, the
+ * `visibility` only filters the notes and links of the graph, so a link to an
+ * existing note with another visibility is not broken.
+ *
+ * @export
+ * @function
+ * @async
+ * @param {CollectedNotesClient} client - The client used to read the notes and links
+ * @param {string} sitePath - The path of the site (e.g. `blog`)
+ * @param {LinkGraphOptions} [options] - The visibility of the notes and the concurrency
+ * @returns {Promise<LinkGraph>} - The notes, their links, backlinks, orphans and broken links
+ */
+export async function buildLinkGraph(
+  client: CollectedNotesClient,
+  sitePath: string,
+  { visibility, concurrency = 4 }: LinkGraphOptions = {}
+): Promise<LinkGraph> {
+  const allNotes = await client.allNotes(sitePath);
+  const notes = visibility
+    ? allNotes.filter(note => note.visibility === visibility)
+    : allNotes;
+  const noteLinks = await mapWithConcurrency(notes, concurrency, note =>
+    client.links(sitePath, note.path, 'json')
+  );
+
+  const byURL = new Map<string, ID>();
+  const byPath = new Map<string, ID>();
+  for (const note of allNotes) {
+    const url = normalizeURL(note.url);
+    if (url) byURL.set(url, note.id);
+    byPath.set(note.path, note.id);
+  }
+
+  const included = new Set(notes.map(note => note.id));
+  const links: LinkGraphEdge[] = [];
+  const broken: BrokenLink[] = [];
+  const backlinks: Record<ID, ID[]> = {};
+  for (const note of notes) backlinks[note.id] = [];
+
+  notes.forEach((note, index) => {
+    const linked = new Set<ID>();
+    for (const link of noteLinks[index]) {
+      if (link.kind !== 'internal') continue;
+      const url = normalizeURL(link.url);
+      const path = notePathOf(link.url, sitePath);
+      const to =
+        (url === null ? undefined : byURL.get(url)) ??
+        (path === null ? undefined : byPath.get(path));
+
+      if (to === undefined) {
+        if (path !== null) broken.push({ from: note.id, url: link.url, path });
+        continue;
+      }
+      // the linked note exists but is left out of the graph
+      if (!included.has(to) || linked.has(to)) continue;
+      linked.add(to);
+      links.push({ from: note.id, to });
+      if (to !== note.id) backlinks[to].push(note.id);
+    }
+  });
+
+  return {
+    sitePath,
+    notes: notes.map(({ id, path, title, url }) => ({ id, path, title, url })),
+    links,
+    backlinks,
+    orphans: notes
+      .filter(note => backlinks[note.id].length === 0)
+      .map(note => note.id),
+    broken,
+  };
+}
+
+function quoteDOT(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Render a link graph in the Graphviz DOT language, the notes are labeled
+ * with their titles, the orphans are drawn in gray and the broken links point
+ * to a dashed red node with the missing path.
+ *
+ * @export
+ * @function
+ * @param {LinkGraph} graph - The graph to render
+ * @returns {string} - The DOT document
+ */
+export function renderLinkGraphDOT(graph: LinkGraph): string {
+  const lines = [`digraph ${quoteDOT(graph.sitePath)} {`];
+  for (const note of graph.notes) {
+    const id = quoteDOT(String(note.id));
+    const label = quoteDOT(note.title || note.path);
+    const color = graph.orphans.includes(note.id) ? ', color=gray' : '';
+    lines.push(`  ${id} [label=${label}, URL=${quoteDOT(note.url)}${color}];`);
+  }
+  for (const link of graph.links) {
+    const from = quoteDOT(String(link.from));
+    lines.push(`  ${from} -> ${quoteDOT(String(link.to))};`);
+  }
+  for (const link of graph.broken) {
+    const from = quoteDOT(String(link.from));
+    const missing = quoteDOT(`missing:${link.path}`);
+    const label = quoteDOT(link.path);
+    lines.push(`  ${missing} [label=${label}, style=dashed, color=red];`);
+    lines.push(`  ${from} -> ${missing} [style=dashed, color=red];`);
+  }
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,175 @@
+/**
+ * A single attempt of a request to the API, as seen by the middleware.
+ * @export
+ */
+export type MiddlewareRequest = {
+  /**
+   * The HTTP method of the request (e.g. `GET`).
+   * @type {string}
+   */
+  method: string;
+  /**
+   * The full URL of the request.
+   * @type {string}
+   */
+  url: string;
+  /**
+   * The headers sent with the request, including the credentials.
+   * @type {Record<string, string>}
+   */
+  headers: Record<string, string>;
+  /**
+   * The body of the request, if any.
+   * @type {string}
+   */
+  body?: string;
+  /**
+   * The number of the attempt, `0` for the first one and above for retries.
+   * @type {number}
+   */
+  attempt: number;
+};
+
+/**
+ * A function running around every attempt of a request, it can change the
+ * request before calling `next` and the response returned by it.
+ * @export
+ */
+export type Middleware = (
+  request: MiddlewareRequest,
+  next: (request: MiddlewareRequest) => Promise<Response>
+) => Promise<Response>;
+
+/**
+ * The data received by the `onRequest` hook.
+ * @export
+ */
+export type RequestEvent = {
+  /**
+   * The HTTP method of the request (e.g. `GET`).
+   * @type {string}
+   */
+  method: string;
+  /**
+   * The full URL of the request.
+   * @type {string}
+   */
+  url: string;
+  /**
+   * The number of the attempt, `0` for the first one and above for retries.
+   * @type {number}
+   */
+  attempt: number;
+  /**
+   * The headers sent with the request, including the credentials.
+   * @type {Record<string, string>}
+   */
+  headers: Record<string, string>;
+};
+
+/**
+ * The data received by the `onResponse` hook.
+ * @export
+ */
+export type ResponseEvent = RequestEvent & {
+  /**
+   * The status of the response, successful or not.
+   * @type {number}
+   */
+  status: number;
+  /**
+   * The time in milliseconds until the response was received.
+   * @type {number}
+   */
+  duration: number;
+};
+
+/**
+ * The data received by the `onError` hook.
+ * @export
+ */
+export type RequestErrorEvent = RequestEvent & {
+  /**
+   * The error thrown before receiving a response, e.g. a `TimeoutError` or a
+   * network error.
+   * @type {Error}
+   */
+  error: Error;
+  /**
+   * The time in milliseconds until the request failed.
+   * @type {number}
+   */
+  duration: number;
+};
+
+/**
+ * The functions called on every attempt of a request, to log or measure them.
+ * @export
+ */
+export type RequestHooks = {
+  /**
+   * Called before sending the request.
+   */
+  onRequest?(event: RequestEvent): void;
+  /**
+   * Called with every response received, including unsuccessful statuses.
+   */
+  onResponse?(event: ResponseEvent): void;
+  /**
+   * Called when the request fails without a response.
+   */
+  onError?(event: RequestErrorEvent): void;
+};
+
+/**
+ * Run the middleware in order around the function sending the request, the
+ * first middleware is the outermost one.
+ */
+export function runMiddleware(
+  middleware: Middleware[],
+  request: MiddlewareRequest,
+  send: (request: MiddlewareRequest) => Promise<Response>
+): Promise<Response> {
+  function dispatch(
+    index: number,
+    current: MiddlewareRequest
+  ): Promise<Response> {
+    if (index >= middleware.length) return send(current);
+    return middleware[index](current, next => dispatch(index + 1, next));
+  }
+  return dispatch(0, request);
+}
+
+/**
+ * Create a middleware calling the hooks, it runs after the rest of the
+ * middleware so the hooks see the request as it's sent.
+ */
+export function createHooksMiddleware({
+  onRequest,
+  onResponse,
+  onError,
+}: RequestHooks): Middleware {
+  return async (request, next) => {
+    const { method, url, attempt, headers } = request;
+    const start = Date.now();
+    onRequest?.({ method, url, attempt, headers });
+    try {
+      const response = await next(request);
+      const duration = Date.now() - start;
+      const { status } = response;
+      onResponse?.({ method, url, attempt, headers, status, duration });
+      return response;
+    } catch (error) {
+      const duration = Date.now() - start;
+      onError?.({
+        method,
+        url,
+        attempt,
+        headers,
+        error: error as Error,
+        duration,
+      });
+      throw error;
+    }
+  };
+}
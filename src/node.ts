@@ -0,0 +1,25 @@
+/**
+ * The functions of the library using the file system, the network or the
+ * processes of Node.js, kept out of the main entry so it can be bundled for
+ * browsers. Import them from `collected-notes/node`.
+ */
+export {
+  syncDirectory,
+  SyncAction,
+  SyncDirection,
+  SyncOptions,
+  SyncResult,
+} from './sync';
+export { runCLI, CLIEnvironment } from './cli';
+export { createFileStore } from './cache-file-store';
+export {
+  exportStaticSite,
+  IndexPageData,
+  NotePageData,
+  StaticSiteOptions,
+  StaticSiteResult,
+  StaticSiteTemplate,
+} from './static-site';
+export { startFakeServer, FakeServer } from './fake-server';
+export { createFileHistoryStore } from './history-file-store';
+export { loadSearchIndex, saveSearchIndex } from './search-index-file';
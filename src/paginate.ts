@@ -0,0 +1,58 @@
+/**
+ * The options to control how many pages are fetched while iterating a
+ * paginated API.
+ * @export
+ */
+export type PaginateOptions = {
+  /**
+   * The maximum number of pages to fetch, by default there is no limit and
+   * the iteration stops at the first empty page.
+   * @type {number}
+   */
+  maxPages?: number;
+  /**
+   * The number of pages requested at the same time, by default is `1`. Using
+   * `2` or more will prefetch the next pages while the current one is being
+   * consumed.
+   * @type {number}
+   */
+  concurrency?: number;
+};
+
+/**
+ * Iterate every item of a paginated API, fetching the pages in order until
+ * one of them is empty.
+ *
+ * @function
+ * @async
+ * @param {(page: number) => Promise<T[]>} fetchPage - Get the items of a page, starting at `1`
+ * @param {PaginateOptions} [options] - The maximum number of pages and the concurrency
+ * @returns {AsyncGenerator<T>} - Every item of every page
+ */
+export async function* paginate<T>(
+  fetchPage: (page: number) => Promise<T[]>,
+  { maxPages = Infinity, concurrency = 1 }: PaginateOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  const pending: Promise<T[]>[] = [];
+  let nextPage = 1;
+
+  function schedule(size: number) {
+    while (pending.length < size && nextPage <= maxPages) {
+      const promise = fetchPage(nextPage++);
+      // prefetched pages may be discarded after an empty page, avoid them
+      // ending as unhandled rejections
+      promise.catch(() => {});
+      pending.push(promise);
+    }
+  }
+
+  schedule(1);
+  while (pending.length > 0) {
+    const items = await (pending.shift() as Promise<T[]>);
+    if (items.length === 0) return;
+    // the page being consumed counts as one of the concurrent pages
+    schedule(concurrency - 1);
+    for (const item of items) yield item;
+    schedule(1);
+  }
+}
@@ -0,0 +1,341 @@
+import { HTTPCache } from './cache';
+import { createError, parseRetryAfter, TimeoutError } from './errors';
+import {
+  createHooksMiddleware,
+  Middleware,
+  RequestHooks,
+  runMiddleware,
+} from './middleware';
+
+/**
+ * The URL of the Collected Notes API used when no `baseUrl` is configured.
+ */
+export const DEFAULT_BASE_URL = 'https://collectednotes.com';
+
+/**
+ * The options to configure when a failed request is retried.
+ * @export
+ */
+export type RetryOptions = {
+  /**
+   * The maximum number of retries of a request, by default is `2`. Use `0` to
+   * disable retries.
+   * @type {number}
+   */
+  retries?: number;
+  /**
+   * The delay before the first retry in milliseconds, by default is `500`.
+   * @type {number}
+   */
+  minDelay?: number;
+  /**
+   * The maximum delay between retries in milliseconds, by default is `30000`.
+   * If the API asks to wait longer using `Retry-After` the request is not
+   * retried.
+   * @type {number}
+   */
+  maxDelay?: number;
+  /**
+   * The factor the delay is multiplied by after each retry, by default is `2`.
+   * @type {number}
+   */
+  factor?: number;
+  /**
+   * The HTTP methods that can be retried, by default only the idempotent ones
+   * (`GET`, `HEAD`, `PUT`, `DELETE` and `OPTIONS`).
+   * @type {string[]}
+   */
+  methods?: string[];
+  /**
+   * The status codes of the responses that will be retried, by default `408`,
+   * `429`, `500`, `502`, `503` and `504`.
+   * @type {number[]}
+   */
+  statuses?: number[];
+};
+
+/**
+ * The options to configure how the requests to the API are done.
+ * @export
+ */
+export type ClientOptions = {
+  /**
+   * The URL the paths of the API are resolved against, by default it's
+   * `https://collectednotes.com`. Use it to send the requests to a proxy or a
+   * local server.
+   * @type {string}
+   */
+  baseUrl?: string;
+  /**
+   * The Fetch API implementation used to run the requests, by default it's the
+   * global `fetch`. Use it to pass a polyfill in environments without it.
+   * @type {typeof fetch}
+   */
+  fetch?: typeof fetch;
+  /**
+   * Extra headers sent with every request.
+   * @type {Record<string, string>}
+   */
+  headers?: Record<string, string>;
+  /**
+   * How failed requests are retried, network errors, timeouts and the
+   * configured statuses are retried with an exponential backoff.
+   * @type {RetryOptions}
+   */
+  retry?: RetryOptions;
+  /**
+   * The maximum time in milliseconds every attempt of a request can take, by
+   * default there is no timeout.
+   * @type {number}
+   */
+  timeout?: number;
+  /**
+   * Check the shape of every response of the API, throwing a
+   * `SchemaValidationError` naming the field that failed if it doesn't match
+   * the types of this library, by default is `false`.
+   * @type {boolean}
+   */
+  validate?: boolean;
+  /**
+   * The cache used for the requests of the public API, created with
+   * `createCache`, by default nothing is cached.
+   * @type {HTTPCache}
+   */
+  cache?: HTTPCache;
+  /**
+   * The path of the site used by `create` and `forSite` when no site is
+   * passed, it's checked against the sites of the user before the first
+   * request using it. By default `create` adds the note to the first site.
+   * @type {string}
+   */
+  defaultSite?: string;
+  /**
+   * The middleware running around every attempt of a request, in order, the
+   * first one is the outermost. The client can add more with `use`.
+   * @type {Middleware[]}
+   */
+  middleware?: Middleware[];
+  /**
+   * Called before every attempt of a request.
+   * @type {RequestHooks['onRequest']}
+   */
+  onRequest?: RequestHooks['onRequest'];
+  /**
+   * Called with every response received, including unsuccessful statuses.
+   * @type {RequestHooks['onResponse']}
+   */
+  onResponse?: RequestHooks['onResponse'];
+  /**
+   * Called when an attempt of a request fails without a response.
+   * @type {RequestHooks['onError']}
+   */
+  onError?: RequestHooks['onError'];
+};
+
+/**
+ * The options accepted by every method of the client, on a single call.
+ * @export
+ */
+export type CallOptions = {
+  /**
+   * A signal to abort the request, an aborted request is never retried.
+   * @type {AbortSignal}
+   */
+  signal?: AbortSignal;
+  /**
+   * The maximum time in milliseconds every attempt of the request can take,
+   * it overrides the `timeout` of the client.
+   * @type {number}
+   */
+  timeout?: number;
+};
+
+/**
+ * The options of a single request to the API.
+ */
+export type RequestOptions = CallOptions & {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+};
+
+const defaultRetryOptions: Required<RetryOptions> = {
+  retries: 2,
+  minDelay: 500,
+  maxDelay: 30000,
+  factor: 2,
+  methods: ['GET', 'HEAD', 'PUT', 'DELETE', 'OPTIONS'],
+  statuses: [408, 429, 500, 502, 503, 504],
+};
+
+function createAbortError(): Error {
+  const error = new Error('The request was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+}
+
+// free the connection of a response that won't be read before retrying,
+// cancelling the stream when possible and reading it otherwise
+async function discardBody(response: Response): Promise<void> {
+  try {
+    if (typeof response.body?.cancel === 'function') {
+      await response.body.cancel();
+    } else {
+      await response.arrayBuffer();
+    }
+  } catch {
+    // the body is ignored, so failing to discard it is not an error
+  }
+}
+
+/**
+ * Run a single attempt of a request, rejecting with a `TimeoutError` if it
+ * takes longer than `timeout`.
+ *
+ * When `AbortController` is available the request is also aborted, otherwise
+ * the response is ignored.
+ */
+export async function fetchWithTimeout(
+  fetcher: typeof fetch,
+  url: string,
+  init: RequestInit,
+  method: string,
+  timeout?: number
+): Promise<Response> {
+  if (timeout === undefined) return await fetcher(url, init);
+  // the listener below only sees future aborts, and the controller's signal
+  // replaces the one given
+  if (init.signal?.aborted) throw createAbortError();
+
+  const controller =
+    typeof AbortController === 'undefined' ? null : new AbortController();
+  const signal = init.signal;
+  const onAbort = () => controller?.abort();
+  signal?.addEventListener('abort', onAbort);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timedOut = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      reject(new TimeoutError({ url, method, timeout }));
+      controller?.abort();
+    }, timeout);
+  });
+
+  try {
+    return await Promise.race([
+      fetcher(url, { ...init, signal: controller?.signal ?? signal }),
+      timedOut,
+    ]);
+  } finally {
+    if (timer !== undefined) clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Create the function used to run requests against the API with the given
+ * options.
+ *
+ * The returned function retries the failed requests based on the `retry`
+ * option and throws a `CollectedNotesError` if the response status is still
+ * not successful. Every attempt runs through the `middleware` and the hooks,
+ * the array is read on every attempt so middleware added later is used too.
+ *
+ * @function
+ * @param {ClientOptions} [options] - The options of the client
+ * @returns {(path: string, init?: RequestOptions) => Promise<Response>}
+ */
+export function createRequest(options: ClientOptions = {}) {
+  const baseUrl = (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const retry = { ...defaultRetryOptions, ...options.retry };
+  const middleware = options.middleware ?? [];
+  const hooks = createHooksMiddleware(options);
+
+  return async function request(
+    path: string,
+    { signal, timeout = options.timeout, ...init }: RequestOptions = {}
+  ): Promise<Response> {
+    const url = `${baseUrl}${path}`;
+    const method = init.method ?? 'GET';
+    const fetcher = options.cache
+      ? options.cache.wrap(options.fetch ?? fetch)
+      : options.fetch ?? fetch;
+    const canRetry = retry.methods.includes(method);
+
+    for (let attempt = 0; ; attempt++) {
+      // a custom fetch may ignore the signal, so an aborted request is never
+      // sent
+      if (signal?.aborted) throw createAbortError();
+      const delay = Math.min(
+        retry.maxDelay,
+        retry.minDelay * Math.pow(retry.factor, attempt)
+      );
+      // use between half and the full delay to avoid retrying concurrent
+      // requests at the same time
+      const jitteredDelay = delay / 2 + (Math.random() * delay) / 2;
+      const shouldRetry = canRetry && attempt < retry.retries;
+
+      let response: Response;
+      try {
+        response = await runMiddleware(
+          [...middleware, hooks],
+          {
+            method,
+            url,
+            headers: { ...options.headers, ...init.headers },
+            body: init.body,
+            attempt,
+          },
+          sent =>
+            fetchWithTimeout(
+              fetcher,
+              sent.url,
+              {
+                method: sent.method,
+                headers: sent.headers,
+                body: sent.body,
+                signal,
+              },
+              sent.method,
+              timeout
+            )
+        );
+      } catch (error) {
+        if (!shouldRetry || signal?.aborted) throw error;
+        await sleep(jitteredDelay, signal);
+        continue;
+      }
+
+      if (response.ok) return response;
+
+      if (shouldRetry && retry.statuses.includes(response.status)) {
+        const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+        if (retryAfter === null || retryAfter * 1000 <= retry.maxDelay) {
+          await discardBody(response);
+          await sleep(
+            retryAfter === null ? jitteredDelay : retryAfter * 1000,
+            signal
+          );
+          continue;
+        }
+      }
+
+      throw await createError(response, method, url);
+    }
+  };
+}
@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { createSearchIndex, SearchIndex } from './index';
+
+/**
+ * Save a full-text index as a JSON file.
+ *
+ * @export
+ * @function
+ * @async
+ * @param {SearchIndex} index - The index to save
+ * @param {string} file - The path of the file
+ * @returns {Promise<void>}
+ */
+export async function saveSearchIndex(
+  index: SearchIndex,
+  file: string
+): Promise<void> {
+  await fs.mkdir(dirname(file), { recursive: true });
+  await fs.writeFile(file, JSON.stringify(index.toJSON()), 'utf8');
+}
+
+/**
+ * Load a full-text index saved with `saveSearchIndex`, an empty index is
+ * returned if the file doesn't exist.
+ *
+ * @export
+ * @function
+ * @async
+ * @param {string} file - The path of the file
+ * @returns {Promise<SearchIndex>} - The index
+ */
+export async function loadSearchIndex(file: string): Promise<SearchIndex> {
+  try {
+    return createSearchIndex(JSON.parse(await fs.readFile(file, 'utf8')));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return createSearchIndex();
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,520 @@
+import { parseNoteBody } from './front-matter';
+import {
+  CollectedNotesClient,
+  Event,
+  ID,
+  ISODate,
+  Note,
+  NoteVisibility,
+} from './index';
+import { escapeXML } from './xml';
+
+/**
+ * The filters and options of a search in a local index.
+ * @export
+ */
+export type LocalSearchOptions = {
+  /**
+   * Only the notes with this visibility, or any of them.
+   * @type {(NoteVisibility | NoteVisibility[])}
+   */
+  visibility?: NoteVisibility | NoteVisibility[];
+  /**
+   * Only the notes created at or after this date.
+   * @type {(ISODate | Date)}
+   */
+  createdAfter?: ISODate | Date;
+  /**
+   * Only the notes created before this date.
+   * @type {(ISODate | Date)}
+   */
+  createdBefore?: ISODate | Date;
+  /**
+   * Only the notes curated, or not curated, by Collected Notes.
+   * @type {boolean}
+   */
+  curated?: boolean;
+  /**
+   * The maximum number of results, by default is `20`.
+   * @type {number}
+   */
+  limit?: number;
+  /**
+   * The number of results skipped, to paginate them, by default is `0`.
+   * @type {number}
+   */
+  offset?: number;
+  /**
+   * The approximate length of the snippets in characters, by default is
+   * `160`.
+   * @type {number}
+   */
+  snippetLength?: number;
+  /**
+   * The strings around every match inside the snippets, by default is
+   * `{ pre: '<mark>', post: '</mark>' }`. They are added as they are, while
+   * the text of the note is escaped as HTML.
+   * @type {{ pre: string; post: string }}
+   */
+  highlight?: { pre: string; post: string };
+};
+
+/**
+ * A note found in a local index.
+ * @export
+ */
+export type LocalSearchResult = {
+  /**
+   * The note found.
+   * @type {Note}
+   */
+  note: Note;
+  /**
+   * How relevant the note is for the query, the results are sorted by it.
+   * @type {number}
+   */
+  score: number;
+  /**
+   * A fragment of the body around the first match, escaped as HTML, with the
+   * matches highlighted.
+   * @type {string}
+   */
+  snippet: string;
+};
+
+/**
+ * The data of a local index, as saved to disk.
+ * @export
+ */
+export type SerializedSearchIndex = {
+  /**
+   * The version of the format.
+   * @type {1}
+   */
+  version: 1;
+  /**
+   * The ID of the site of the notes, if the index belongs to a single site.
+   * @type {(ID | null)}
+   */
+  siteId: ID | null;
+  /**
+   * The visibility of the notes of the index, if only the notes with this
+   * visibility are indexed.
+   * @type {(NoteVisibility | null)}
+   */
+  visibility?: NoteVisibility | null;
+  /**
+   * Every note of the index.
+   * @type {Note[]}
+   */
+  notes: Note[];
+};
+
+/**
+ * A full-text index of notes, searched locally without calling the API.
+ * @export
+ */
+export type SearchIndex = {
+  /**
+   * Add a note to the index, replacing its previous version. If the index
+   * only has the notes with a visibility, a note with another one is removed.
+   */
+  add(note: Note): void;
+  /**
+   * Remove a note from the index.
+   */
+  remove(noteId: ID): void;
+  /**
+   * Update the index with the notes of a webhook event, the notes of other
+   * sites are ignored if the index belongs to a single site, and the notes
+   * without the visibility of the index are removed.
+   */
+  applyEvent(event: Event): void;
+  /**
+   * Search the notes matching every word of the query, sorted by relevance.
+   */
+  search(query: string, options?: LocalSearchOptions): LocalSearchResult[];
+  /**
+   * The number of notes in the index.
+   */
+  size(): number;
+  /**
+   * Get the data of the index to save it, e.g. with `saveSearchIndex`.
+   */
+  toJSON(): SerializedSearchIndex;
+};
+
+type Token = { term: string; start: number; end: number };
+
+type IndexedNote = {
+  note: Note;
+  fields: { title: string[]; headline: string[]; body: string[] };
+};
+
+type QueryPart =
+  | { type: 'term'; term: string }
+  | { type: 'prefix'; term: string }
+  | { type: 'phrase'; terms: string[] };
+
+// how much a match in each field is worth
+const fieldWeights = { title: 3, headline: 2, body: 1 };
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+function tokenize(text: string): Token[] {
+  // the normalized text can have a different length, so the offset in the
+  // original text of every character is kept
+  let normalized = '';
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const char of Array.from(text)) {
+    const part = normalize(char);
+    for (let i = 0; i < part.length; i++) offsets.push(offset);
+    normalized += part;
+    offset += char.length;
+  }
+  offsets.push(offset);
+
+  const tokens: Token[] = [];
+  // the combining marks are part of the words in some scripts
+  const pattern = /[\p{L}\p{M}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(normalized))) {
+    const end = match.index + match[0].length;
+    tokens.push({
+      term: match[0],
+      start: offsets[match.index],
+      end: offsets[end],
+    });
+  }
+  return tokens;
+}
+
+function terms(text: string): string[] {
+  return tokenize(text).map(token => token.term);
+}
+
+function uniqueTerms({ fields }: IndexedNote): string[] {
+  const { title, headline, body } = fields;
+  return Array.from(new Set(title.concat(headline, body)));
+}
+
+function parseQuery(query: string): QueryPart[] {
+  const parts: QueryPart[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(query))) {
+    if (match[1] !== undefined) {
+      const phrase = terms(match[1]);
+      if (phrase.length === 1) parts.push({ type: 'term', term: phrase[0] });
+      else if (phrase.length > 1) parts.push({ type: 'phrase', terms: phrase });
+      continue;
+    }
+    const isPrefix = match[2].endsWith('*');
+    const words = terms(match[2]);
+    words.forEach((term, index) => {
+      const isLast = index === words.length - 1;
+      parts.push({ type: isPrefix && isLast ? 'prefix' : 'term', term });
+    });
+  }
+  return parts;
+}
+
+function countPhrase(tokens: string[], phrase: string[]): number {
+  let count = 0;
+  for (let i = 0; i + phrase.length <= tokens.length; i++) {
+    if (phrase.every((term, j) => tokens[i + j] === term)) count++;
+  }
+  return count;
+}
+
+// the number of tokens matched by the query starting at a token, `0` if
+// there is no match
+function matchLength(parts: QueryPart[], tokens: Token[], index: number) {
+  const { term } = tokens[index];
+  for (const part of parts) {
+    if (part.type === 'term' && term === part.term) return 1;
+    if (part.type === 'prefix' && term.startsWith(part.term)) return 1;
+    if (part.type !== 'phrase') continue;
+    const following = tokens
+      .slice(index, index + part.terms.length)
+      .map(item => item.term);
+    if (countPhrase(following, part.terms) > 0) return part.terms.length;
+  }
+  return 0;
+}
+
+function toTime(date: ISODate | Date): number {
+  return new Date(date).getTime();
+}
+
+function renderSnippet(
+  body: string,
+  parts: QueryPart[],
+  length: number,
+  { pre, post }: { pre: string; post: string }
+): string {
+  const tokens = tokenize(body);
+  // the number of tokens matched starting at each token
+  const matched = tokens.map((_, index) => matchLength(parts, tokens, index));
+  const first = matched.findIndex(count => count > 0);
+  const center = first === -1 ? 0 : tokens[first].start;
+
+  let start = Math.max(0, center - Math.floor(length / 3));
+  let end = Math.min(body.length, start + length);
+  start = Math.max(0, end - length);
+  // don't cut words in half
+  while (start > 0 && /\S/.test(body[start - 1])) start--;
+  while (end < body.length && /\S/.test(body[end])) end++;
+
+  let snippet = '';
+  let cursor = start;
+  for (let i = 0; i < tokens.length; i++) {
+    if (matched[i] === 0) continue;
+    const from = tokens[i].start;
+    const to = tokens[i + matched[i] - 1].end;
+    if (from < start || to > end) continue;
+    snippet += `${escapeXML(body.slice(cursor, from))}${pre}${escapeXML(
+      body.slice(from, to)
+    )}${post}`;
+    cursor = to;
+    i += matched[i] - 1;
+  }
+  snippet += escapeXML(body.slice(cursor, end));
+
+  snippet = snippet.replace(/\s+/g, ' ').trim();
+  if (start > 0) snippet = `…${snippet}`;
+  if (end < body.length) snippet = `${snippet}…`;
+  return snippet;
+}
+
+/**
+ * Create a full-text index of notes over their title, headline and body, to
+ * search them locally with ranked results, phrases (`"exact words"`) and
+ * prefixes (`api*`).
+ *
+ * Every word of a query must be found in the note, the results are ranked by
+ * how many times the words appear, how rare they are among the notes, and if
+ * they are in the title, the headline or the body.
+ *
+ * @export
+ * @function
+ * @param {SerializedSearchIndex | Note[]} [data] - The notes to index, or the data of a saved index
+ * @returns {SearchIndex} - The index
+ */
+export function createSearchIndex(
+  data: SerializedSearchIndex | Note[] = []
+): SearchIndex {
+  const siteId = Array.isArray(data) ? null : data.siteId;
+  const visibility = Array.isArray(data) ? null : data.visibility ?? null;
+  const notes = new Map<ID, IndexedNote>();
+  // the notes containing every term, to find them without reading each one
+  const postings = new Map<string, Set<ID>>();
+
+  function remove(noteId: ID) {
+    const indexed = notes.get(noteId);
+    if (!indexed) return;
+    notes.delete(noteId);
+    for (const term of uniqueTerms(indexed)) {
+      const ids = postings.get(term);
+      ids?.delete(noteId);
+      if (ids?.size === 0) postings.delete(term);
+    }
+  }
+
+  function add(note: Note) {
+    remove(note.id);
+    if (visibility !== null && note.visibility !== visibility) return;
+    const fields = {
+      title: terms(note.title),
+      headline: terms(note.headline),
+      body: terms(note.body),
+    };
+    const indexed = { note, fields };
+    notes.set(note.id, indexed);
+    for (const term of uniqueTerms(indexed)) {
+      let ids = postings.get(term);
+      if (!ids) postings.set(term, (ids = new Set()));
+      ids.add(note.id);
+    }
+  }
+
+  for (const note of Array.isArray(data) ? data : data.notes) add(note);
+
+  function applyEvent(event: Event) {
+    const changed =
+      event.event === 'note-reordered' ? event.data.notes : [event.data.note];
+    for (const note of changed) {
+      if (siteId !== null && note.site_id !== siteId) continue;
+      if (event.event === 'note-deleted') remove(note.id);
+      else add(note);
+    }
+  }
+
+  // the terms of the index matching a part of a query
+  function expand(part: QueryPart): string[] {
+    if (part.type === 'term') return [part.term];
+    if (part.type === 'phrase') return part.terms;
+    return Array.from(postings.keys()).filter(term =>
+      term.startsWith(part.term)
+    );
+  }
+
+  function candidates(part: QueryPart): Set<ID> {
+    const ids = new Set<ID>();
+    if (part.type === 'phrase') {
+      // a note with the phrase has every term of it
+      const [first, ...rest] = part.terms.map(
+        term => postings.get(term) ?? new Set<ID>()
+      );
+      first.forEach(id => {
+        if (rest.every(set => set.has(id))) ids.add(id);
+      });
+      return ids;
+    }
+    for (const term of expand(part)) {
+      postings.get(term)?.forEach(id => ids.add(id));
+    }
+    return ids;
+  }
+
+  function countMatches(tokens: string[], part: QueryPart): number {
+    switch (part.type) {
+      case 'term':
+        return tokens.filter(token => token === part.term).length;
+      case 'prefix':
+        return tokens.filter(token => token.startsWith(part.term)).length;
+      case 'phrase':
+        return countPhrase(tokens, part.terms);
+    }
+  }
+
+  function search(
+    query: string,
+    {
+      visibility,
+      createdAfter,
+      createdBefore,
+      curated,
+      limit = 20,
+      offset = 0,
+      snippetLength = 160,
+      highlight = { pre: '<mark>', post: '</mark>' },
+    }: LocalSearchOptions = {}
+  ): LocalSearchResult[] {
+    const parts = parseQuery(query);
+    if (parts.length === 0) return [];
+
+    const visibilities =
+      visibility === undefined || Array.isArray(visibility)
+        ? visibility
+        : [visibility];
+    const after = createdAfter === undefined ? -Infinity : toTime(createdAfter);
+    const before =
+      createdBefore === undefined ? Infinity : toTime(createdBefore);
+
+    let ids: ID[] | null = null;
+    for (const part of parts) {
+      const found = candidates(part);
+      ids = (ids ?? Array.from(found)).filter(id => found.has(id));
+    }
+
+    // rare terms are worth more than common ones
+    const rarities = parts.map(part =>
+      Math.log(1 + notes.size / Math.max(1, candidates(part).size))
+    );
+
+    const scored: { indexed: IndexedNote; score: number }[] = [];
+    for (const id of ids ?? []) {
+      const indexed = notes.get(id) as IndexedNote;
+      const { note, fields } = indexed;
+      const created = toTime(note.created_at);
+      const isFiltered =
+        (visibilities && !visibilities.includes(note.visibility)) ||
+        (curated !== undefined && note.curated !== curated) ||
+        created < after ||
+        created >= before;
+      if (isFiltered) continue;
+
+      let score = 0;
+      let matchesAll = true;
+      parts.forEach((part, index) => {
+        let partScore = 0;
+        for (const field of ['title', 'headline', 'body'] as const) {
+          const count = countMatches(fields[field], part);
+          partScore += fieldWeights[field] * Math.sqrt(count);
+        }
+        // a phrase split by the fields has every term but no match
+        if (partScore === 0) matchesAll = false;
+        score += partScore * rarities[index];
+      });
+      if (matchesAll) scored.push({ indexed, score });
+    }
+
+    scored.sort(
+      (a, b) => b.score - a.score || a.indexed.note.id - b.indexed.note.id
+    );
+
+    return scored
+      .slice(offset, offset + limit)
+      .map(({ indexed: { note }, score }) => {
+        // the front matter is not part of the content shown
+        const snippet = renderSnippet(
+          parseNoteBody(note.body).content,
+          parts,
+          snippetLength,
+          highlight
+        );
+        return { note, score, snippet };
+      });
+  }
+
+  return {
+    add,
+    remove,
+    applyEvent,
+    search,
+    size: () => notes.size,
+    toJSON: () => ({
+      version: 1,
+      siteId,
+      visibility,
+      notes: Array.from(notes.values()).map(({ note }) => note),
+    }),
+  };
+}
+
+/**
+ * Create a full-text index with every note of a site, the index ignores the
+ * webhook events of the notes of other sites. With a `visibility` only the
+ * notes with it are indexed, including the ones added later by events.
+ *
+ * @export
+ * @function
+ * @async
+ * @param {CollectedNotesClient} client - The client used to read the notes
+ * @param {string} sitePath - The path of the site (e.g. `blog`)
+ * @param {{ visibility?: NoteVisibility }} [options] - Only index the notes with this visibility
+ * @returns {Promise<SearchIndex>} - The index
+ */
+export async function buildSearchIndex(
+  client: CollectedNotesClient,
+  sitePath: string,
+  { visibility }: { visibility?: NoteVisibility } = {}
+): Promise<SearchIndex> {
+  const [{ site }, notes] = await Promise.all([
+    client.site(sitePath, 1),
+    client.allNotes(sitePath, { visibility }),
+  ]);
+  return createSearchIndex({
+    version: 1,
+    siteId: site.id,
+    visibility: visibility ?? null,
+    notes,
+  });
+}
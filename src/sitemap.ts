@@ -0,0 +1,123 @@
+import { ISODate, URL, XML } from './index';
+import { element, renderDocument } from './xml';
+
+const namespace = 'http://www.sitemaps.org/schemas/sitemap/0.9';
+
+/**
+ * The maximum number of URLs a sitemap can have, as defined by the sitemaps
+ * protocol.
+ */
+export const MAX_SITEMAP_URLS = 50000;
+
+/**
+ * A page included in a sitemap.
+ */
+export type SitemapEntry = { loc: URL; lastmod?: ISODate };
+
+function toW3CDate(date: ISODate): string {
+  return new Date(date).toISOString();
+}
+
+/**
+ * Render a sitemap with a list of pages.
+ *
+ * @function
+ * @param {SitemapEntry[]} entries - The pages, with their last modification date
+ * @returns {XML} - The sitemap document
+ */
+export function renderSitemap(entries: SitemapEntry[]): XML {
+  return renderDocument(
+    element(
+      'urlset',
+      { xmlns: namespace },
+      ...entries.map(entry =>
+        element(
+          'url',
+          {},
+          element('loc', {}, entry.loc),
+          entry.lastmod && element('lastmod', {}, toW3CDate(entry.lastmod))
+        )
+      )
+    )
+  );
+}
+
+/**
+ * Render a sitemap index with a list of sitemaps.
+ *
+ * @function
+ * @param {SitemapEntry[]} entries - The sitemaps, with their last modification date
+ * @returns {XML} - The sitemap index document
+ */
+export function renderSitemapIndex(entries: SitemapEntry[]): XML {
+  return renderDocument(
+    element(
+      'sitemapindex',
+      { xmlns: namespace },
+      ...entries.map(entry =>
+        element(
+          'sitemap',
+          {},
+          element('loc', {}, entry.loc),
+          entry.lastmod && element('lastmod', {}, toW3CDate(entry.lastmod))
+        )
+      )
+    )
+  );
+}
+
+/**
+ * The rules of a `robots.txt` file.
+ * @export
+ */
+export type RobotsOptions = {
+  /**
+   * The user agent the rules apply to, by default is `*`.
+   * @type {string}
+   */
+  userAgent?: string;
+  /**
+   * The paths the crawlers can't visit, by default every path is allowed.
+   * @type {string[]}
+   */
+  disallow?: string[];
+  /**
+   * The paths the crawlers can visit even if they are inside a disallowed
+   * path.
+   * @type {string[]}
+   */
+  allow?: string[];
+  /**
+   * The full URLs of the sitemaps of the site.
+   * @type {(URL | URL[])}
+   */
+  sitemap?: URL | URL[];
+};
+
+/**
+ * Generate a `robots.txt` file, usually to point the crawlers to the sitemap
+ * generated with `sitemap`.
+ *
+ * @export
+ * @function
+ * @param {RobotsOptions} [options] - The user agent, the paths and the sitemaps
+ * @returns {string} - The content of the `robots.txt` file
+ */
+export function robotsTxt({
+  userAgent = '*',
+  disallow = [],
+  allow = [],
+  sitemap = [],
+}: RobotsOptions = {}): string {
+  const lines = [`User-agent: ${userAgent}`];
+  for (const path of allow) lines.push(`Allow: ${path}`);
+  // an empty Disallow allows every path
+  if (disallow.length === 0) lines.push('Disallow:');
+  for (const path of disallow) lines.push(`Disallow: ${path}`);
+
+  const sitemaps = Array.isArray(sitemap) ? sitemap : [sitemap];
+  if (sitemaps.length > 0) lines.push('');
+  for (const url of sitemaps) lines.push(`Sitemap: ${url}`);
+
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,309 @@
+import { promises as fs } from 'fs';
+import { dirname, join } from 'path';
+import { mapWithConcurrency } from './concurrency';
+import { renderAtom, renderRSS } from './feed';
+import {
+  CollectedNotesClient,
+  HTML,
+  ID,
+  ISODate,
+  Note,
+  NoteVisibility,
+  Site,
+  URL,
+} from './index';
+import { DEFAULT_BASE_URL } from './request';
+import { escapeXML } from './xml';
+
+/**
+ * The data used to render the page of a note.
+ * @export
+ */
+export type NotePageData = { site: Site; note: Note; html: HTML };
+
+/**
+ * The data used to render the index of a site.
+ * @export
+ */
+export type IndexPageData = { site: Site; notes: Note[] };
+
+/**
+ * The functions used to render the pages of a static site, they can return
+ * the HTML or a promise resolving to it.
+ * @export
+ */
+export type StaticSiteTemplate = {
+  /**
+   * Render the page of a note, the `html` is the body of the note already
+   * rendered by Collected Notes.
+   */
+  note?(data: NotePageData): HTML | Promise<HTML>;
+  /**
+   * Render the index of the site, the notes are sorted by their `ordering`.
+   */
+  index?(data: IndexPageData): HTML | Promise<HTML>;
+};
+
+/**
+ * The options to export a static site.
+ * @export
+ */
+export type StaticSiteOptions = {
+  /**
+   * The functions used to render the pages, by default a minimal HTML
+   * document is rendered.
+   * @type {StaticSiteTemplate}
+   */
+  template?: StaticSiteTemplate;
+  /**
+   * The visibility of the notes exported, by default only `public` and
+   * `public_site` notes are exported.
+   * @type {(NoteVisibility | NoteVisibility[])}
+   */
+  visibility?: NoteVisibility | NoteVisibility[];
+  /**
+   * The URL where the static site is hosted, used in the feeds, by default
+   * it's the custom domain of the site or its URL inside Collected Notes.
+   * @type {URL}
+   */
+  baseUrl?: URL;
+  /**
+   * Write the JSON, RSS and Atom feeds, by default is `true`.
+   * @type {boolean}
+   */
+  feeds?: boolean;
+  /**
+   * The visibility passed to `feed`, by default is `public_site`.
+   * @type {NoteVisibility}
+   */
+  feedVisibility?: NoteVisibility;
+  /**
+   * Render every note again, even if it didn't change since the last export,
+   * by default is `false`. Use it after changing the template.
+   * @type {boolean}
+   */
+  force?: boolean;
+  /**
+   * The maximum number of requests to get the HTML of the notes running at
+   * the same time, by default is `4`.
+   * @type {number}
+   */
+  concurrency?: number;
+};
+
+/**
+ * The files changed by an export, relative to the output directory.
+ * @export
+ */
+export type StaticSiteResult = {
+  /**
+   * The files written.
+   * @type {string[]}
+   */
+  written: string[];
+  /**
+   * The pages of the notes not changed since the last export.
+   * @type {string[]}
+   */
+  skipped: string[];
+  /**
+   * The pages of the notes deleted or renamed since the last export.
+   * @type {string[]}
+   */
+  deleted: string[];
+};
+
+type Manifest = {
+  notes: Record<ID, { file: string; updated_at: ISODate }>;
+};
+
+const manifestFile = '.collected-notes-export.json';
+
+function renderNote({ site, note, html }: NotePageData): HTML {
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXML(note.title)} - ${escapeXML(site.name)}</title>
+<meta name="description" content="${escapeXML(note.headline)}">
+</head>
+<body>
+<nav><a href="index.html">${escapeXML(site.name)}</a></nav>
+<article>
+${html}
+</article>
+</body>
+</html>
+`;
+}
+
+function renderIndex({ site, notes }: IndexPageData): HTML {
+  const items = notes.map(note => {
+    const href = `${escapeXML(note.path)}.html`;
+    return `<li><a href="${href}">${escapeXML(note.title)}</a></li>`;
+  });
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXML(site.name)}</title>
+<meta name="description" content="${escapeXML(site.headline)}">
+</head>
+<body>
+<h1>${escapeXML(site.name)}</h1>
+<p>${escapeXML(site.headline)}</p>
+<ul>
+${items.join('\n')}
+</ul>
+</body>
+</html>
+`;
+}
+
+async function readManifest(outDir: string): Promise<Manifest> {
+  try {
+    return JSON.parse(await fs.readFile(join(outDir, manifestFile), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { notes: {} };
+    }
+    throw error;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Export a site as static HTML files, with a page for each note named after
+ * its path (e.g. `api.html`), an `index.html` with every note, and the
+ * `feed.json`, `feed.xml` (RSS) and `atom.xml` feeds.
+ *
+ * The `updated_at` of every exported note is saved in the output directory,
+ * on the next export the notes not updated since then are skipped, and the
+ * feeds are only built again if a note changed.
+ *
+ * @export
+ * @function
+ * @async
+ * @param {CollectedNotesClient} client - The client used to read the site, the notes and the feeds
+ * @param {string} sitePath - The path of the site (e.g. `blog`)
+ * @param {string} outDir - The directory where the files are written
+ * @param {StaticSiteOptions} [options] - The template, the notes exported and the feeds
+ * @returns {Promise<StaticSiteResult>} - The files written, skipped and deleted
+ */
+export async function exportStaticSite(
+  client: CollectedNotesClient,
+  sitePath: string,
+  outDir: string,
+  {
+    template = {},
+    visibility = ['public', 'public_site'],
+    baseUrl,
+    feeds = true,
+    feedVisibility = 'public_site',
+    force = false,
+    concurrency = 4,
+  }: StaticSiteOptions = {}
+): Promise<StaticSiteResult> {
+  const visibilities = Array.isArray(visibility) ? visibility : [visibility];
+  const [{ site }, allNotes, manifest] = await Promise.all([
+    client.site(sitePath, 1),
+    client.allNotes(sitePath),
+    readManifest(outDir),
+  ]);
+  const notes = allNotes
+    .filter(note => visibilities.includes(note.visibility))
+    .sort((a, b) => a.ordering - b.ordering);
+
+  const result: StaticSiteResult = { written: [], skipped: [], deleted: [] };
+  const nextManifest: Manifest = { notes: {} };
+
+  async function write(file: string, content: string) {
+    const path = join(outDir, file);
+    await fs.mkdir(dirname(path), { recursive: true });
+    await fs.writeFile(path, content, 'utf8');
+    result.written.push(file);
+  }
+
+  await fs.mkdir(outDir, { recursive: true });
+
+  const changed: Note[] = [];
+  for (const note of notes) {
+    const file = `${note.path}.html`;
+    const previous = manifest.notes[note.id];
+    nextManifest.notes[note.id] = { file, updated_at: note.updated_at };
+    const isUnchanged =
+      !force &&
+      previous?.file === file &&
+      previous.updated_at === note.updated_at &&
+      (await exists(join(outDir, file)));
+    if (isUnchanged) result.skipped.push(file);
+    else changed.push(note);
+  }
+
+  await mapWithConcurrency(changed, concurrency, async note => {
+    const { body: html } = await client.body(sitePath, note.path);
+    const renderPage = template.note ?? renderNote;
+    await write(`${note.path}.html`, await renderPage({ site, note, html }));
+  });
+
+  // remove the pages of the notes deleted, renamed or no longer visible
+  const files = new Set(notes.map(note => `${note.path}.html`));
+  for (const id of Object.keys(manifest.notes)) {
+    const { file } = manifest.notes[Number(id)];
+    if (files.has(file)) continue;
+    await fs.unlink(join(outDir, file)).catch(() => {});
+    result.deleted.push(file);
+  }
+
+  const renderHome = template.index ?? renderIndex;
+  await write('index.html', await renderHome({ site, notes }));
+
+  const hasChanges = changed.length > 0 || result.deleted.length > 0;
+  if (
+    feeds &&
+    (force || hasChanges || !(await exists(join(outDir, 'feed.json'))))
+  ) {
+    const url = (
+      baseUrl ??
+      (site.domain
+        ? `https://${site.domain}`
+        : `${DEFAULT_BASE_URL}/${sitePath}`)
+    ).replace(/\/+$/, '');
+    const [jsonFeed, user] = await Promise.all([
+      client.feed(
+        sitePath,
+        feedVisibility,
+        { home_page_url: `${url}/`, feed_url: `${url}/feed.json`, concurrency },
+        'json'
+      ),
+      client.me(),
+    ]);
+    await write('feed.json', JSON.stringify(jsonFeed, null, 2));
+    await write(
+      'feed.xml',
+      renderRSS({ ...jsonFeed, feed_url: `${url}/feed.xml` }, site, user)
+    );
+    await write(
+      'atom.xml',
+      renderAtom({ ...jsonFeed, feed_url: `${url}/atom.xml` }, site, user)
+    );
+  }
+
+  await fs.writeFile(
+    join(outDir, manifestFile),
+    JSON.stringify(nextManifest, null, 2),
+    'utf8'
+  );
+
+  return result;
+}
@@ -0,0 +1,416 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import {
+  CollectedNotesClient,
+  ID,
+  ISODate,
+  Markdown,
+  Note,
+  NoteVisibility,
+} from './index';
+
+/**
+ * The direction of a sync, `pull` writes the notes to the directory, `push`
+ * sends the files of the directory to Collected Notes and `both` does both.
+ * @export
+ */
+export type SyncDirection = 'pull' | 'push' | 'both';
+
+/**
+ * The options to configure a sync.
+ * @export
+ */
+export type SyncOptions = {
+  /**
+   * The direction of the sync, by default is `both`.
+   * @type {SyncDirection}
+   */
+  direction?: SyncDirection;
+  /**
+   * Only plan the changes without applying them, by default is `false`.
+   * @type {boolean}
+   */
+  dryRun?: boolean;
+  /**
+   * Allow deleting notes, when a file was deleted, and files, when a note was
+   * deleted, by default is `false`.
+   * @type {boolean}
+   */
+  allowDelete?: boolean;
+  /**
+   * The visibility of the notes created from new files, by default is
+   * `private`.
+   * @type {NoteVisibility}
+   */
+  visibility?: NoteVisibility;
+  /**
+   * The path of the file used to store the state of the last sync, by default
+   * is `.collected-notes-sync.json` inside the directory.
+   * @type {string}
+   */
+  stateFile?: string;
+};
+
+/**
+ * A change planned, or applied, by a sync.
+ *
+ * - `pull` writes a note to its file
+ * - `push` updates a note with the content of its file
+ * - `create` creates a note from a new file
+ * - `delete-local` deletes the file of a deleted note
+ * - `delete-remote` deletes the note of a deleted file
+ * - `conflict` the note and its file changed since the last sync, or a new
+ *   note got the path of another file, nothing is done
+ * @export
+ */
+export type SyncAction = {
+  type:
+    | 'pull'
+    | 'push'
+    | 'create'
+    | 'delete-local'
+    | 'delete-remote'
+    | 'conflict';
+  /**
+   * The path of the note (e.g. `api`).
+   * @type {string}
+   */
+  path: string;
+  /**
+   * The full path of the file of the note.
+   * @type {string}
+   */
+  file: string;
+  /**
+   * Why the action was planned.
+   * @type {string}
+   */
+  reason: string;
+  /**
+   * If the action was applied, always `false` on a dry run.
+   * @type {boolean}
+   */
+  applied: boolean;
+  /**
+   * The error thrown while applying the action, if any.
+   * @type {Error}
+   */
+  error?: Error;
+};
+
+/**
+ * The result of a sync.
+ * @export
+ */
+export type SyncResult = {
+  /**
+   * Every change planned by the sync, including the conflicts.
+   * @type {SyncAction[]}
+   */
+  actions: SyncAction[];
+  /**
+   * The notes and files that changed on both sides since the last sync.
+   * @type {SyncAction[]}
+   */
+  conflicts: SyncAction[];
+};
+
+// `file` is the name of the file of the note when it's not the path, after
+// creating a note with the path of another file
+type SyncStateEntry = {
+  id: ID;
+  updated_at: ISODate;
+  hash: string;
+  file?: string;
+};
+
+type SyncState = { notes: Record<string, SyncStateEntry> };
+
+type LocalFile = { name: string; file: string; body: Markdown; hash: string };
+
+const extension = '.md';
+
+function hash(body: Markdown): string {
+  return createHash('sha1')
+    .update(body)
+    .digest('hex');
+}
+
+async function readState(stateFile: string): Promise<SyncState> {
+  try {
+    return JSON.parse(await fs.readFile(stateFile, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { notes: {} };
+    }
+    throw error;
+  }
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.stat(file);
+    return true;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+    throw error;
+  }
+}
+
+async function readLocalFiles(dir: string): Promise<Map<string, LocalFile>> {
+  const files = new Map<string, LocalFile>();
+  const names = await fs.readdir(dir);
+  for (const fileName of names) {
+    if (!fileName.endsWith(extension)) continue;
+    const name = fileName.slice(0, -extension.length);
+    const file = join(dir, fileName);
+    const body = await fs.readFile(file, 'utf8');
+    files.set(name, { name, file, body, hash: hash(body) });
+  }
+  return files;
+}
+
+/**
+ * Sync the notes of a site with a directory of Markdown files, one file per
+ * note named after its path (e.g. `api.md`).
+ *
+ * The sync compares the notes and the files against the state of the last
+ * sync, stored in a JSON file, to know which side changed. When both changed
+ * the note is reported as a conflict and nothing is overwritten.
+ *
+ * A note changed if its `updated_at` is not the one of the last sync and a
+ * file if the hash of its content is not the one of the last sync. The
+ * modification time of the files is not compared with `updated_at`, it
+ * changes when a file is copied or checked out without changing its content
+ * and the clock of the computer may not match the one of Collected Notes.
+ *
+ * @export
+ * @function
+ * @async
+ * @param {CollectedNotesClient} client - The client used to read and write the notes
+ * @param {string} sitePath - The path of the site (e.g. `blog`)
+ * @param {string} dir - The directory with the Markdown files
+ * @param {SyncOptions} [options] - The direction of the sync and if it's a dry run
+ * @returns {Promise<SyncResult>} - The changes planned or applied
+ */
+export async function syncDirectory(
+  client: CollectedNotesClient,
+  sitePath: string,
+  dir: string,
+  {
+    direction = 'both',
+    dryRun = false,
+    allowDelete = false,
+    visibility = 'private',
+    stateFile = join(dir, '.collected-notes-sync.json'),
+  }: SyncOptions = {}
+): Promise<SyncResult> {
+  const canPull = direction !== 'push';
+  const canPush = direction !== 'pull';
+
+  if (!dryRun) await fs.mkdir(dir, { recursive: true });
+
+  const [notes, localFiles, state] = await Promise.all([
+    client.allNotes(sitePath),
+    readLocalFiles(dir).catch(error => {
+      if (dryRun && error.code === 'ENOENT')
+        return new Map<string, LocalFile>();
+      throw error;
+    }),
+    readState(stateFile),
+  ]);
+
+  const remoteNotes = new Map<string, Note>();
+  for (const note of notes) remoteNotes.set(note.path, note);
+
+  const actions: SyncAction[] = [];
+  const nextState: SyncState = { notes: { ...state.notes } };
+
+  // the files of the notes, by the path of the note, a file recorded with
+  // another name takes the place of the file named after the path
+  const localNotes = new Map<string, LocalFile>();
+  const recordedFiles = new Set<LocalFile>();
+  Object.keys(state.notes).forEach(path => {
+    const name = state.notes[path].file;
+    const local = name === undefined ? undefined : localFiles.get(name);
+    if (!local) return;
+    localNotes.set(path, local);
+    recordedFiles.add(local);
+  });
+  localFiles.forEach((local, name) => {
+    if (recordedFiles.has(local)) return;
+    const owner = localNotes.get(name);
+    if (!owner) {
+      localNotes.set(name, local);
+    } else {
+      actions.push({
+        type: 'conflict',
+        path: name,
+        file: local.file,
+        reason: `The note of the file ${owner.file} has the path of this file`,
+        applied: false,
+      });
+    }
+  });
+
+  const paths = new Set<string>([
+    ...Array.from(remoteNotes.keys()),
+    ...Array.from(localNotes.keys()),
+    ...Object.keys(state.notes),
+  ]);
+
+  function plan(type: SyncAction['type'], path: string, reason: string) {
+    const file = localNotes.get(path)?.file ?? join(dir, `${path}${extension}`);
+    actions.push({ type, path, file, reason, applied: false });
+  }
+
+  function remember(path: string, entry: SyncStateEntry) {
+    const name = localNotes.get(path)?.name;
+    nextState.notes[path] =
+      name === undefined || name === path ? entry : { ...entry, file: name };
+  }
+
+  paths.forEach(path => {
+    const note = remoteNotes.get(path);
+    const local = localNotes.get(path);
+    const previous = state.notes[path];
+
+    if (note && local) {
+      const remoteChanged =
+        !previous || previous.updated_at !== note.updated_at;
+      const localChanged = !previous || previous.hash !== local.hash;
+
+      if (note.body === local.body) {
+        // already in sync, only remember it
+        remember(path, {
+          id: note.id,
+          updated_at: note.updated_at,
+          hash: local.hash,
+        });
+      } else if (remoteChanged && localChanged) {
+        plan(
+          'conflict',
+          path,
+          previous
+            ? 'The note and the file changed since the last sync'
+            : 'The note and the file are different and were never synced'
+        );
+      } else if (remoteChanged && canPull) {
+        plan('pull', path, 'The note changed since the last sync');
+      } else if (localChanged && canPush) {
+        plan('push', path, 'The file changed since the last sync');
+      }
+    } else if (note) {
+      if (!previous) {
+        if (canPull) plan('pull', path, 'The note is new');
+      } else if (previous.updated_at !== note.updated_at) {
+        plan('conflict', path, 'The file was deleted but the note changed');
+      } else if (canPush && allowDelete) {
+        plan('delete-remote', path, 'The file was deleted');
+      }
+    } else if (local) {
+      if (!previous) {
+        if (canPush) plan('create', path, 'The file is new');
+      } else if (previous.hash !== local.hash) {
+        plan('conflict', path, 'The note was deleted but the file changed');
+      } else if (canPull && allowDelete) {
+        plan('delete-local', path, 'The note was deleted');
+      }
+    } else {
+      // deleted on both sides
+      delete nextState.notes[path];
+    }
+  });
+
+  const conflicts = actions.filter(action => action.type === 'conflict');
+  if (dryRun) return { actions, conflicts };
+
+  // the paths with a file, or that will have one after pulling the notes, a
+  // new file can't be renamed to any of them
+  const takenPaths = new Set<string>([
+    ...Array.from(localFiles.keys()),
+    ...Array.from(remoteNotes.keys()),
+  ]);
+
+  for (const action of actions) {
+    const note = remoteNotes.get(action.path);
+    const local = localNotes.get(action.path);
+    try {
+      switch (action.type) {
+        case 'pull': {
+          const { body, id, updated_at } = note as Note;
+          await fs.writeFile(action.file, body, 'utf8');
+          remember(action.path, { id, updated_at, hash: hash(body) });
+          break;
+        }
+        case 'push': {
+          const { body, hash } = local as LocalFile;
+          const updated = await client.update(sitePath, action.path, {
+            body,
+            visibility: (note as Note).visibility,
+          });
+          remember(action.path, {
+            id: updated.id,
+            updated_at: updated.updated_at,
+            hash,
+          });
+          break;
+        }
+        case 'create': {
+          const { name, body, hash } = local as LocalFile;
+          const created = await client.create({ body, visibility }, sitePath);
+          const entry = {
+            id: created.id,
+            updated_at: created.updated_at,
+            hash,
+          };
+          // the path of a new note is generated by Collected Notes from its
+          // title, rename the file to match it
+          const file = join(dir, `${created.path}${extension}`);
+          if (file !== action.file) {
+            if (takenPaths.has(created.path) || (await exists(file))) {
+              // the file keeps its name and is recorded as the file of the
+              // note, so the next sync doesn't create the note again
+              nextState.notes[created.path] = { ...entry, file: name };
+              const conflict: SyncAction = {
+                type: 'conflict',
+                path: created.path,
+                file,
+                reason: `The note created from ${action.file} has the path of this file`,
+                applied: false,
+              };
+              actions.push(conflict);
+              conflicts.push(conflict);
+              break;
+            }
+            await fs.rename(action.file, file);
+            takenPaths.delete(action.path);
+            takenPaths.add(created.path);
+          }
+          nextState.notes[created.path] = entry;
+          break;
+        }
+        case 'delete-local': {
+          await fs.unlink(action.file);
+          delete nextState.notes[action.path];
+          break;
+        }
+        case 'delete-remote': {
+          await client.destroy(sitePath, action.path);
+          delete nextState.notes[action.path];
+          break;
+        }
+        case 'conflict':
+          continue;
+      }
+      action.applied = true;
+    } catch (error) {
+      action.error = error as Error;
+    }
+  }
+
+  await fs.writeFile(stateFile, JSON.stringify(nextState, null, 2), 'utf8');
+
+  return { actions, conflicts };
+}
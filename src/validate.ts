@@ -0,0 +1,275 @@
+import { SchemaValidationError } from './errors';
+import { HTML, Link, Note, NoteVisibility, Site, User } from './index';
+
+/**
+ * Check a value is of type `T`, throwing a `SchemaValidationError` naming the
+ * field that failed otherwise.
+ * @export
+ */
+export type Assert<T> = (value: unknown, path?: string) => T;
+
+type Schema = Record<string, Assert<unknown>>;
+
+function fail(path: string, expected: string, received: unknown): never {
+  throw new SchemaValidationError({ path, expected, received });
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Assert<T> {
+  return (value, path = 'value') => {
+    if (typeof value !== type) fail(path, `a ${type}`, value);
+    return value as T;
+  };
+}
+
+const string = primitive<string>('string');
+const number = primitive<number>('number');
+const boolean = primitive<boolean>('boolean');
+
+function nullable<T>(assert: Assert<T>): Assert<T | null> {
+  return (value, path = 'value') => {
+    if (value === null) return null;
+    try {
+      return assert(value, path);
+    } catch (error) {
+      if (!(error instanceof SchemaValidationError)) throw error;
+      return fail(path, `${error.expected} or null`, value);
+    }
+  };
+}
+
+function oneOf<T extends string>(...options: T[]): Assert<T> {
+  const expected = `one of ${options.map(option => `"${option}"`).join(', ')}`;
+  return (value, path = 'value') => {
+    if (!options.includes(value as T)) fail(path, expected, value);
+    return value as T;
+  };
+}
+
+function object<T>(
+  schema: Schema,
+  name: string,
+  expected: string = `a ${name}`
+): Assert<T> {
+  return (value, path = name) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      fail(path, expected, value);
+    }
+    const record = value as Record<string, unknown>;
+    for (const key of Object.keys(schema)) {
+      schema[key](record[key], `${path}.${key}`);
+    }
+    return (record as unknown) as T;
+  };
+}
+
+/**
+ * Create a function to check a value is an array where every item is of type
+ * `T`.
+ *
+ * @export
+ * @function
+ * @param {Assert<T>} assert - The function to check each item
+ * @param {string} [name='value'] - The name of the array used in the error message
+ * @returns {Assert<T[]>}
+ */
+export function arrayOf<T>(
+  assert: Assert<T>,
+  name: string = 'value'
+): Assert<T[]> {
+  return (value, path = name) => {
+    if (!Array.isArray(value)) fail(path, 'an array', value);
+    (value as unknown[]).forEach((item, index) =>
+      assert(item, `${path}[${index}]`)
+    );
+    return value as T[];
+  };
+}
+
+const visibility = oneOf<NoteVisibility>(
+  'private',
+  'public',
+  'public_unlisted',
+  'public_site'
+);
+
+/**
+ * Check a value is a `Note`.
+ *
+ * @export
+ * @function
+ * @param {unknown} value - The value to check
+ * @param {string} [path='note'] - The name of the value used in the error message
+ * @returns {Note} - The same value, typed as a note
+ * @throws {SchemaValidationError} - If a field of the note is missing or invalid
+ */
+export const assertNote: Assert<Note> = object<Note>(
+  {
+    id: number,
+    site_id: number,
+    user_id: number,
+    body: string,
+    path: string,
+    headline: string,
+    title: string,
+    created_at: string,
+    updated_at: string,
+    visibility,
+    url: string,
+    poster: nullable(string),
+    curated: boolean,
+    ordering: number,
+  },
+  'note'
+);
+
+/**
+ * Check a value is a `Site`.
+ *
+ * @export
+ * @function
+ * @param {unknown} value - The value to check
+ * @param {string} [path='site'] - The name of the value used in the error message
+ * @returns {Site} - The same value, typed as a site
+ * @throws {SchemaValidationError} - If a field of the site is missing or invalid
+ */
+export const assertSite: Assert<Site> = object<Site>(
+  {
+    id: number,
+    user_id: number,
+    name: string,
+    headline: string,
+    about: string,
+    host: nullable(string),
+    created_at: string,
+    updated_at: string,
+    site_path: string,
+    published: boolean,
+    tinyletter: string,
+    domain: string,
+    webhook_url: string,
+    payment_platform: nullable(string),
+    is_premium: boolean,
+    total_notes: number,
+  },
+  'site'
+);
+
+/**
+ * Check a value is a `User`.
+ *
+ * @export
+ * @function
+ * @param {unknown} value - The value to check
+ * @param {string} [path='user'] - The name of the value used in the error message
+ * @returns {User} - The same value, typed as a user
+ * @throws {SchemaValidationError} - If a field of the user is missing or invalid
+ */
+export const assertUser: Assert<User> = object<User>(
+  {
+    id: number,
+    email: string,
+    name: string,
+    role: string,
+    banned: boolean,
+    avatar_key: string,
+    created_at: string,
+    updated_at: string,
+  },
+  'user'
+);
+
+/**
+ * Check a value is a `Link`.
+ *
+ * @export
+ * @function
+ * @param {unknown} value - The value to check
+ * @param {string} [path='link'] - The name of the value used in the error message
+ * @returns {Link} - The same value, typed as a link
+ * @throws {SchemaValidationError} - If a field of the link is missing or invalid
+ */
+export const assertLink: Assert<Link> = object<Link>(
+  {
+    id: number,
+    note_id: number,
+    url: string,
+    kind: oneOf('internal', 'external'),
+    host: string,
+    title: string,
+    created_at: string,
+    updated_at: string,
+  },
+  'link'
+);
+
+function guard<T>(assert: Assert<T>) {
+  return (value: unknown): value is T => {
+    try {
+      assert(value);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+}
+
+/**
+ * Check if a value is a `Note`.
+ * @export
+ */
+export const isNote = guard(assertNote);
+
+/**
+ * Check if a value is a `Site`.
+ * @export
+ */
+export const isSite = guard(assertSite);
+
+/**
+ * Check if a value is a `User`.
+ * @export
+ */
+export const isUser = guard(assertUser);
+
+/**
+ * Check if a value is a `Link`.
+ * @export
+ */
+export const isLink = guard(assertLink);
+
+export const assertNotes = arrayOf(assertNote, 'notes');
+export const assertSites = arrayOf(assertSite, 'sites');
+export const assertLinks = arrayOf(assertLink, 'links');
+export const assertIds = arrayOf(number, 'ids');
+
+export const assertSiteData = object<{ site: Site; notes: Note[] }>(
+  { site: assertSite, notes: assertNotes },
+  'response',
+  'an object'
+);
+
+export const assertNoteBody = object<{ note: Note; body: HTML }>(
+  { note: assertNote, body: string },
+  'response',
+  'an object'
+);
+
+/**
+ * Parse the JSON of a response, checking its shape when `validate` is
+ * enabled.
+ *
+ * @function
+ * @async
+ * @param {Response} response - The response to parse
+ * @param {Assert<T>} assert - The function to check the shape of the data
+ * @param {boolean} [validate=false] - If the data should be checked
+ * @returns {Promise<T>} - The parsed data
+ */
+export async function parseJSON<T>(
+  response: Response,
+  assert: Assert<T>,
+  validate: boolean = false
+): Promise<T> {
+  const data: unknown = await response.json();
+  return validate ? assert(data) : (data as T);
+}
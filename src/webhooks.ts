@@ -0,0 +1,288 @@
+import { InvalidWebhookError, SchemaValidationError } from './errors';
+import { Event } from './index';
+import { arrayOf, assertNote } from './validate';
+
+/**
+ * The functions called for each kind of webhook event.
+ * @export
+ */
+export type WebhookHandlers = {
+  [Name in Event['event']]?: (
+    event: Extract<Event, { event: Name }>
+  ) => unknown | Promise<unknown>;
+};
+
+/**
+ * The options to configure a webhook handler.
+ * @export
+ */
+export type WebhookHandlerOptions = {
+  /**
+   * How many of the last events are remembered to ignore duplicated
+   * deliveries, by default is `1000`. Use `0` to disable the de-duplication.
+   * @type {number}
+   */
+  dedupeSize?: number;
+  /**
+   * Get the key used to detect a duplicated delivery of an event, by default
+   * it's built with the name of the event and the `id` and `updated_at` of the
+   * notes.
+   * @type {(event: Event) => string}
+   */
+  dedupeKey?: (event: Event) => string;
+};
+
+/**
+ * The minimal interface of a Node.js `http.IncomingMessage` used by the
+ * webhook handler.
+ */
+export type NodeRequest = {
+  method?: string;
+  body?: unknown;
+  on(event: 'data', listener: (chunk: unknown) => void): unknown;
+  on(event: 'end', listener: () => void): unknown;
+  on(event: 'error', listener: (error: Error) => void): unknown;
+};
+
+/**
+ * The minimal interface of a Node.js `http.ServerResponse` used by the
+ * webhook handler.
+ */
+export type NodeResponse = {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+};
+
+/**
+ * A webhook handler, it can be used as a Fetch API handler receiving a
+ * `Request` and returning a `Response`, or as a Node.js `http` listener.
+ * @export
+ */
+export type WebhookHandler = {
+  (request: Request): Promise<Response>;
+  (request: NodeRequest, response: NodeResponse): Promise<void>;
+};
+
+const eventNames: Event['event'][] = [
+  'note-created',
+  'note-updated',
+  'note-deleted',
+  'note-reordered',
+];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// the global TextDecoder was added in Node.js 11, older versions can only
+// decode bytes with a Buffer
+function decodeUTF8(bytes: ArrayBuffer | ArrayBufferView): string {
+  if (typeof TextDecoder !== 'undefined') {
+    return new TextDecoder().decode(bytes);
+  }
+  const buffer = ArrayBuffer.isView(bytes)
+    ? Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    : Buffer.from(bytes);
+  return buffer.toString('utf8');
+}
+
+/**
+ * Parse and validate the payload of a webhook sent by Collected Notes.
+ *
+ * @export
+ * @function
+ * @param {unknown} body - The raw body of the request as a string or bytes (e.g. a `Buffer`), or the already parsed JSON
+ * @returns {Event} - The event, typed based on its name
+ * @throws {InvalidWebhookError} - If the body is not valid JSON or is not a known event
+ */
+export function parseWebhookEvent(body: unknown): Event {
+  let payload = body;
+  // raw bodies, e.g. the Buffer of `express.raw()`, are decoded first
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) {
+    payload = decodeUTF8(body);
+  }
+  if (typeof payload === 'string') {
+    try {
+      payload = JSON.parse(payload);
+    } catch {
+      throw new InvalidWebhookError('The webhook body is not valid JSON');
+    }
+  }
+
+  if (!isObject(payload)) {
+    throw new InvalidWebhookError('Expected the webhook body to be an object');
+  }
+
+  const name = payload.event;
+  if (!eventNames.includes(name as Event['event'])) {
+    throw new InvalidWebhookError(`Unknown webhook event \`${String(name)}\``);
+  }
+
+  const data = payload.data;
+  if (!isObject(data)) {
+    throw new InvalidWebhookError('Expected `data` to be an object');
+  }
+
+  try {
+    if (name === 'note-reordered') {
+      arrayOf(assertNote)(data.notes, 'data.notes');
+    } else {
+      assertNote(data.note, 'data.note');
+    }
+  } catch (error) {
+    if (error instanceof SchemaValidationError) {
+      throw new InvalidWebhookError(error.message);
+    }
+    throw error;
+  }
+
+  return payload as Event;
+}
+
+function defaultDedupeKey(event: Event): string {
+  const notes =
+    event.event === 'note-reordered' ? event.data.notes : [event.data.note];
+  return [
+    event.event,
+    ...notes.map(note => `${note.id}@${note.updated_at}`),
+  ].join(':');
+}
+
+function readNodeBody(request: NodeRequest): Promise<unknown> {
+  // frameworks like Express may have already read and parsed the body
+  if (request.body !== undefined) return Promise.resolve(request.body);
+
+  return new Promise((resolve, reject) => {
+    // the chunks are decoded together so multi-byte characters split between
+    // two chunks are not broken
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => {
+      chunks.push(
+        typeof chunk === 'string' ? Buffer.from(chunk) : (chunk as Buffer)
+      );
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Create a handler for the webhooks sent by Collected Notes, calling the
+ * function of each event after validating the payload.
+ *
+ * The handler responds with `405` to methods other than `POST`, `400` to
+ * malformed events or unreadable bodies, `500` if the function of the event
+ * throws, and `200`
+ * otherwise. Duplicated deliveries of an event are acknowledged without
+ * calling the function again.
+ *
+ * @export
+ * @function
+ * @param {WebhookHandlers} handlers - The functions to call for each event
+ * @param {WebhookHandlerOptions} [options] - The options of the de-duplication
+ * @returns {WebhookHandler} - A Fetch API handler or Node.js `http` listener
+ */
+export function createWebhookHandler(
+  handlers: WebhookHandlers,
+  {
+    dedupeSize = 1000,
+    dedupeKey = defaultDedupeKey,
+  }: WebhookHandlerOptions = {}
+): WebhookHandler {
+  const seen = new Set<string>();
+
+  function remember(key: string) {
+    seen.add(key);
+    if (seen.size <= dedupeSize) return;
+    // a Set iterates in insertion order, so the first key is the oldest one
+    const oldest = seen.values().next();
+    if (!oldest.done) seen.delete(oldest.value);
+  }
+
+  async function handle(
+    method: string,
+    readBody: () => Promise<unknown>
+  ): Promise<{ status: number; message: string }> {
+    if (method.toUpperCase() !== 'POST') {
+      return { status: 405, message: 'Method Not Allowed' };
+    }
+
+    let body: unknown;
+    try {
+      body = await readBody();
+    } catch {
+      // e.g. the client closed the connection while sending the body
+      return { status: 400, message: 'The request body could not be read' };
+    }
+
+    let event: Event;
+    try {
+      event = parseWebhookEvent(body);
+    } catch (error) {
+      if (error instanceof InvalidWebhookError) {
+        return { status: 400, message: error.message };
+      }
+      throw error;
+    }
+
+    const key = dedupeKey(event);
+    if (dedupeSize > 0 && seen.has(key)) {
+      return { status: 200, message: 'Duplicated' };
+    }
+    if (dedupeSize > 0) remember(key);
+
+    const handler = handlers[event.event] as
+      | ((event: Event) => unknown)
+      | undefined;
+
+    try {
+      if (handler) await handler(event);
+    } catch {
+      // allow Collected Notes to deliver the event again
+      seen.delete(key);
+      return { status: 500, message: 'Internal Server Error' };
+    }
+
+    return { status: 200, message: 'OK' };
+  }
+
+  async function webhookHandler(request: Request): Promise<Response>;
+  async function webhookHandler(
+    request: NodeRequest,
+    response: NodeResponse
+  ): Promise<void>;
+  async function webhookHandler(
+    request: Request | NodeRequest,
+    response?: NodeResponse
+  ): Promise<Response | void> {
+    if (response) {
+      const nodeRequest = request as NodeRequest;
+      let result: { status: number; message: string };
+      try {
+        result = await handle(nodeRequest.method ?? 'GET', () =>
+          readNodeBody(nodeRequest)
+        );
+      } catch {
+        // an http listener has no caller to reject to, always respond
+        result = { status: 500, message: 'Internal Server Error' };
+      }
+      const { status, message } = result;
+      response.statusCode = status;
+      response.setHeader('Content-Type', 'text/plain');
+      response.end(message);
+      return;
+    }
+
+    const fetchRequest = request as Request;
+    const { status, message } = await handle(fetchRequest.method, () =>
+      fetchRequest.text()
+    );
+    return new Response(message, {
+      status,
+      headers: { 'Content-Type': 'text/plain' },
+    });
+  }
+
+  return webhookHandler;
+}
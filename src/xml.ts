@@ -0,0 +1,64 @@
+import { XML } from './index';
+
+type XMLElement = {
+  name: string;
+  attributes: Record<string, string | undefined>;
+  children: XMLChild[];
+};
+
+type XMLChild = XMLElement | string | null | undefined | false;
+
+/**
+ * Escape the characters with a special meaning in XML text and attributes.
+ *
+ * @function
+ * @param {string} value - The text to escape
+ * @returns {string} - The escaped text
+ */
+export function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export function element(
+  name: string,
+  attributes: Record<string, string | undefined> = {},
+  ...children: XMLChild[]
+): XMLElement {
+  return { name, attributes, children };
+}
+
+function renderElement(node: XMLElement, depth: number): string {
+  const indent = '  '.repeat(depth);
+  const attributes = Object.keys(node.attributes)
+    .filter(key => node.attributes[key] !== undefined)
+    .map(key => ` ${key}="${escapeXML(node.attributes[key] as string)}"`)
+    .join('');
+  const children = node.children.filter((child): child is XMLElement | string =>
+    typeof child === 'string' ? child !== '' : !!child
+  );
+
+  if (children.length === 0) return `${indent}<${node.name}${attributes}/>`;
+
+  if (children.every(child => typeof child === 'string')) {
+    const text = (children as string[]).map(escapeXML).join('');
+    return `${indent}<${node.name}${attributes}>${text}</${node.name}>`;
+  }
+
+  const content = children
+    .map(child =>
+      typeof child === 'string'
+        ? `${'  '.repeat(depth + 1)}${escapeXML(child)}`
+        : renderElement(child, depth + 1)
+    )
+    .join('\n');
+  return `${indent}<${node.name}${attributes}>\n${content}\n${indent}</${node.name}>`;
+}
+
+export function renderDocument(root: XMLElement): XML {
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${renderElement(root, 0)}\n`;
+}
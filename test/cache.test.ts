@@ -0,0 +1,117 @@
+/**
+ * @jest-environment ./test/fetch-environment.js
+ */
+import { createCache } from '../src/cache';
+
+const noteURL = 'https://collectednotes.com/blog/api.json';
+const otherURL = 'https://collectednotes.com/notes/api.json';
+
+function stubFetch(validators: Record<string, string>) {
+  const calls: Record<string, string>[] = [];
+  let version = 0;
+  const fetch = async (_url: RequestInfo, init: RequestInit = {}) => {
+    const headers = init.headers as Record<string, string>;
+    calls.push(headers);
+    const matches =
+      (validators.etag && headers['if-none-match'] === validators.etag) ||
+      (validators.lastModified &&
+        headers['if-modified-since'] === validators.lastModified);
+    if (matches) return new Response(null, { status: 304 });
+    version++;
+    const responseHeaders: Record<string, string> = {};
+    if (validators.etag) responseHeaders.ETag = validators.etag;
+    if (validators.lastModified) {
+      responseHeaders['Last-Modified'] = validators.lastModified;
+    }
+    return new Response(`version ${version}`, { headers: responseHeaders });
+  };
+  return { calls, fetch: fetch as typeof globalThis.fetch };
+}
+
+async function read(fetch: typeof globalThis.fetch, url = noteURL) {
+  const response = await fetch(url, { headers: {} });
+  return await response.text();
+}
+
+let now: number;
+
+beforeEach(() => {
+  now = 0;
+  jest.spyOn(Date, 'now').mockImplementation(() => now);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createCache', () => {
+  test('uses a cached response until the ttl expires', async () => {
+    const { calls, fetch } = stubFetch({ etag: '"1"' });
+    const cachedFetch = createCache({ ttl: 1000 }).wrap(fetch);
+
+    expect(await read(cachedFetch)).toBe('version 1');
+    now = 999;
+    expect(await read(cachedFetch)).toBe('version 1');
+    expect(calls).toHaveLength(1);
+
+    now = 1000;
+    expect(await read(cachedFetch)).toBe('version 1');
+    expect(calls).toHaveLength(2);
+    expect(calls[1]['if-none-match']).toBe('"1"');
+  });
+
+  test('revalidates with the ETag of the response', async () => {
+    const { calls, fetch } = stubFetch({ etag: '"1"' });
+    const cachedFetch = createCache().wrap(fetch);
+
+    expect(await read(cachedFetch)).toBe('version 1');
+    expect(await read(cachedFetch)).toBe('version 1');
+    expect(calls).toEqual([{}, { 'if-none-match': '"1"' }]);
+  });
+
+  test('revalidates with the Last-Modified date of the response', async () => {
+    const lastModified = 'Wed, 01 Jul 2020 08:00:00 GMT';
+    const { calls, fetch } = stubFetch({ lastModified });
+    const cachedFetch = createCache().wrap(fetch);
+
+    expect(await read(cachedFetch)).toBe('version 1');
+    expect(await read(cachedFetch)).toBe('version 1');
+    expect(calls).toEqual([{}, { 'if-modified-since': lastModified }]);
+  });
+
+  test('restarts the ttl after a response is revalidated', async () => {
+    const { calls, fetch } = stubFetch({ etag: '"1"' });
+    const cachedFetch = createCache({ ttl: 1000 }).wrap(fetch);
+
+    await read(cachedFetch);
+    now = 1500;
+    await read(cachedFetch);
+    now = 2000;
+    await read(cachedFetch);
+    expect(calls).toHaveLength(2);
+  });
+
+  test('removes the responses of an invalidated note', async () => {
+    const { calls, fetch } = stubFetch({ etag: '"1"' });
+    const cache = createCache({ ttl: 1000 });
+    const cachedFetch = cache.wrap(fetch);
+
+    await read(cachedFetch);
+    await read(cachedFetch, otherURL);
+    await cache.invalidate('blog', 'api');
+    await read(cachedFetch);
+    await read(cachedFetch, otherURL);
+    expect(calls).toHaveLength(3);
+    expect(calls[2]).toEqual({});
+  });
+
+  test('never caches the requests of the private API', async () => {
+    const { calls, fetch } = stubFetch({ etag: '"1"' });
+    const cachedFetch = createCache({ ttl: 1000 }).wrap(fetch);
+    const init = { headers: { Authorization: 'email token' } };
+
+    await cachedFetch(noteURL, init);
+    await cachedFetch(noteURL, init);
+    expect(calls).toHaveLength(2);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * @jest-environment ./test/fetch-environment.js
+ */
+import {
+  collectedNotes,
+  createFakeAPI,
+  createFakeClient,
+  Event,
+  NotFoundError,
+  ValidationError,
+} from '../src/index';
+import { startFakeServer } from '../src/fake-server';
+
+describe('createFakeAPI', () => {
+  test('creates, reads, updates and deletes notes', async () => {
+    const api = createFakeAPI();
+    const client = createFakeClient(api);
+
+    const created = await client.create(
+      { body: '# Hello\n\nWorld', visibility: 'public' },
+      'test'
+    );
+    expect(created).toMatchObject({ path: 'hello', title: 'Hello' });
+    expect(await client.read('test', 'hello')).toMatchObject({
+      id: created.id,
+      body: '# Hello\n\nWorld',
+    });
+
+    const updated = await client.update('test', 'hello', {
+      body: '# Hello\n\nAgain',
+      visibility: 'private',
+    });
+    expect(updated).toMatchObject({ id: created.id, visibility: 'private' });
+    expect((await client.allNotes('test')).map(note => note.body)).toEqual([
+      '# Hello\n\nAgain',
+    ]);
+
+    await client.destroy('test', 'hello');
+    expect(api.notes()).toEqual([]);
+  });
+
+  test('responds with 404 to missing sites and notes', async () => {
+    const client = createFakeClient();
+    const error = await client.read('test', 'missing').catch(error => error);
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({
+      status: 404,
+      body: { error: 'Note not found' },
+    });
+    await expect(client.site('missing')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  test('responds with 422 to notes without a body', async () => {
+    const client = createFakeClient();
+    const error = await client
+      .create({ body: ' ', visibility: 'public' }, 'test')
+      .catch(error => error);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({
+      status: 422,
+      body: { error: 'The body of the note is required' },
+    });
+  });
+
+  test('records every change as an event', async () => {
+    const api = createFakeAPI();
+    const client = createFakeClient(api);
+    const received: Event[] = [];
+    const stop = api.onEvent(event => received.push(event));
+
+    await client.create({ body: '# One', visibility: 'public' }, 'test');
+    await client.update('test', 'one', {
+      body: '# One!',
+      visibility: 'public',
+    });
+    stop();
+    await client.destroy('test', 'one');
+
+    expect(api.events.map(event => event.event)).toEqual([
+      'note-created',
+      'note-updated',
+      'note-deleted',
+    ]);
+    expect(received).toEqual(api.events.slice(0, 2));
+  });
+});
+
+describe('startFakeServer', () => {
+  test('answers the requests of a client over HTTP', async () => {
+    const server = await startFakeServer({ notes: [{ body: '# First' }] });
+    try {
+      const { email, token } = server.api.credentials;
+      const client = collectedNotes(email, token, { baseUrl: server.url });
+
+      expect((await client.sites()).map(site => site.site_path)).toEqual([
+        'test',
+      ]);
+      await client.create({ body: '# Second', visibility: 'public' }, 'test');
+      expect((await client.allNotes('test')).map(note => note.path)).toEqual(
+        expect.arrayContaining(['first', 'second'])
+      );
+      await expect(client.read('test', 'missing')).rejects.toBeInstanceOf(
+        NotFoundError
+      );
+      expect(server.api.events.map(event => event.event)).toEqual([
+        'note-created',
+      ]);
+    } finally {
+      await server.close();
+    }
+  });
+});
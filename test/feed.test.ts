@@ -0,0 +1,171 @@
+import { renderAtom, renderRSS } from '../src/feed';
+import { JSONFeed, Site, User } from '../src/index';
+
+const site: Site = {
+  id: 1,
+  user_id: 1,
+  name: 'Notes & <Thoughts>',
+  headline: 'Things I "learned"',
+  about: '',
+  host: null,
+  created_at: '2020-01-01T00:00:00.000Z',
+  updated_at: '2020-06-01T10:00:00.000Z',
+  site_path: 'notes',
+  published: true,
+  tinyletter: '',
+  domain: '',
+  webhook_url: '',
+  payment_platform: null,
+  is_premium: false,
+  total_notes: 2,
+};
+
+const user: User = {
+  id: 1,
+  email: 'author@example.com',
+  name: 'Ada & Co',
+  role: 'user',
+  banned: false,
+  avatar_key: '',
+  created_at: '2020-01-01T00:00:00.000Z',
+  updated_at: '2020-01-01T00:00:00.000Z',
+};
+
+const feed: JSONFeed = {
+  version: 'https://jsonfeed.org/version/1.1',
+  title: 'Notes & <Thoughts>',
+  home_page_url: 'https://collectednotes.com/notes',
+  feed_url: 'https://collectednotes.com/notes.rss',
+  language: 'en',
+  items: [
+    {
+      id: '10',
+      url: 'https://collectednotes.com/notes/first',
+      title: 'Less than < & more than >',
+      summary: 'A "quoted" summary',
+      content_html: '<p>Hello <strong>world</strong> &amp; more</p>',
+      image: 'https://example.com/poster.png?size=large',
+      date_published: '2020-05-01T12:30:00.000Z',
+      date_modified: '2020-07-01T08:00:00.000Z',
+      tags: ['typescript', 'rss'],
+    },
+    {
+      id: '11',
+      title: 'Without URL',
+      content_html: '<p>Second</p>',
+      date_published: '2020-05-02T00:00:00.000Z',
+    },
+  ],
+};
+
+function parse(xml: string): Document {
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(document.getElementsByTagName('parsererror')).toHaveLength(0);
+  return document;
+}
+
+function text(parent: Document | Element, name: string): string | null {
+  return parent.getElementsByTagName(name)[0]?.textContent ?? null;
+}
+
+describe('renderRSS', () => {
+  const document = parse(renderRSS(feed, site, user));
+  const items = Array.from(document.getElementsByTagName('item'));
+
+  test('escapes the text', () => {
+    expect(text(document, 'title')).toBe('Notes & <Thoughts>');
+    expect(text(document, 'description')).toBe('Things I "learned"');
+    expect(text(items[0], 'title')).toBe('Less than < & more than >');
+    expect(text(items[0], 'description')).toBe('A "quoted" summary');
+  });
+
+  test('uses RFC 822 dates', () => {
+    const rfc822 = /^\w{3}, \d{2} \w{3} \d{4} \d{2}:\d{2}:\d{2} GMT$/;
+    expect(text(items[0], 'pubDate')).toBe('Fri, 01 May 2020 12:30:00 GMT');
+    expect(text(items[1], 'pubDate')).toMatch(rfc822);
+    expect(text(document, 'lastBuildDate')).toBe(
+      'Wed, 01 Jul 2020 08:00:00 GMT'
+    );
+  });
+
+  test('uses the URL as guid when the note has one', () => {
+    const [first, second] = items.map(
+      item => item.getElementsByTagName('guid')[0]
+    );
+    expect(first.textContent).toBe('https://collectednotes.com/notes/first');
+    expect(first.getAttribute('isPermaLink')).toBe('true');
+    expect(second.textContent).toBe('11');
+    expect(second.getAttribute('isPermaLink')).toBe('false');
+  });
+
+  test('includes the rendered HTML as content:encoded', () => {
+    expect(text(items[0], 'content:encoded')).toBe(
+      '<p>Hello <strong>world</strong> &amp; more</p>'
+    );
+  });
+
+  test('includes the image as an enclosure', () => {
+    const enclosure = items[0].getElementsByTagName('enclosure')[0];
+    expect(enclosure.getAttribute('url')).toBe(
+      'https://example.com/poster.png?size=large'
+    );
+    expect(enclosure.getAttribute('type')).toBe('image/png');
+    expect(enclosure.getAttribute('length')).toBe('0');
+    expect(items[1].getElementsByTagName('enclosure')).toHaveLength(0);
+  });
+
+  test('includes the tags as categories', () => {
+    const categories = Array.from(items[0].getElementsByTagName('category'));
+    expect(categories.map(category => category.textContent)).toEqual([
+      'typescript',
+      'rss',
+    ]);
+  });
+
+  test('uses the name of the author and never the email', () => {
+    expect(text(items[0], 'dc:creator')).toBe('Ada & Co');
+    expect(items[0].getElementsByTagName('author')).toHaveLength(0);
+    expect(renderRSS(feed, site, user)).not.toContain(user.email);
+  });
+});
+
+describe('renderAtom', () => {
+  const document = parse(renderAtom(feed, site, user));
+  const entries = Array.from(document.getElementsByTagName('entry'));
+
+  test('escapes the text', () => {
+    expect(text(document, 'title')).toBe('Notes & <Thoughts>');
+    expect(text(entries[0], 'title')).toBe('Less than < & more than >');
+    expect(text(entries[0], 'content')).toBe(
+      '<p>Hello <strong>world</strong> &amp; more</p>'
+    );
+  });
+
+  test('uses RFC 3339 dates', () => {
+    expect(text(entries[0], 'published')).toBe('2020-05-01T12:30:00.000Z');
+    expect(text(entries[0], 'updated')).toBe('2020-07-01T08:00:00.000Z');
+    expect(text(entries[1], 'updated')).toBe('2020-05-02T00:00:00.000Z');
+  });
+
+  test('uses the URL or a URN as id', () => {
+    expect(text(entries[0], 'id')).toBe(
+      'https://collectednotes.com/notes/first'
+    );
+    expect(text(entries[1], 'id')).toBe('urn:collected-notes:note:11');
+  });
+
+  test('includes the image as an enclosure link', () => {
+    const enclosure = Array.from(entries[0].getElementsByTagName('link')).find(
+      link => link.getAttribute('rel') === 'enclosure'
+    );
+    expect(enclosure?.getAttribute('href')).toBe(
+      'https://example.com/poster.png?size=large'
+    );
+    expect(enclosure?.getAttribute('type')).toBe('image/png');
+  });
+
+  test('uses the name of the author and never the email', () => {
+    expect(text(document, 'name')).toBe('Ada & Co');
+    expect(renderAtom(feed, site, user)).not.toContain(user.email);
+  });
+});
@@ -0,0 +1,21 @@
+const NodeEnvironment = require('jest-environment-node');
+
+// jest doesn't expose the Fetch API of Node.js to the tests, use it in the
+// tests running the client with `@jest-environment ./test/fetch-environment.js`
+class FetchEnvironment extends NodeEnvironment {
+  constructor(config, context) {
+    super(config, context);
+    for (const name of [
+      'fetch',
+      'Request',
+      'Response',
+      'Headers',
+      'AbortController',
+      'AbortSignal',
+    ]) {
+      this.global[name] = global[name];
+    }
+  }
+}
+
+module.exports = FetchEnvironment;
@@ -0,0 +1,120 @@
+/**
+ * @jest-environment ./test/fetch-environment.js
+ */
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createFakeClient } from '../src/index';
+import { checkLinks, LinkCheckReport } from '../src/link-checker';
+
+let server: Server;
+let report: LinkCheckReport;
+
+function result(path: string) {
+  const { port } = server.address() as AddressInfo;
+  return report.results.find(
+    item => item.url === `http://127.0.0.1:${port}${path}`
+  );
+}
+
+beforeAll(async () => {
+  server = createServer((request, response) => {
+    switch (request.url) {
+      case '/missing':
+        response.writeHead(404).end();
+        break;
+      case '/old':
+        response.writeHead(301, { Location: '/older' }).end();
+        break;
+      case '/older':
+        response.writeHead(302, { Location: '/new' }).end();
+        break;
+      case '/get-only':
+        response.writeHead(request.method === 'HEAD' ? 405 : 200).end();
+        break;
+      case '/slow':
+        setTimeout(() => response.writeHead(200).end(), 200);
+        break;
+      default:
+        response.writeHead(200).end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  const { port } = server.address() as AddressInfo;
+  const link = (path: string) => `[${path}](http://127.0.0.1:${port}${path})`;
+  const client = createFakeClient({
+    notes: [
+      { body: `# Broken\n\n${link('/missing')} ${link('/new')}` },
+      { body: `# Moved\n\n${link('/old')} ${link('/get-only')}` },
+      { body: `# Slow\n\n${link('/slow')}` },
+    ],
+  });
+  report = await checkLinks(client, 'test', {
+    fetch,
+    slowThreshold: 100,
+    hostConcurrency: 8,
+  });
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('checkLinks', () => {
+  test('reports the links responding with an error as broken', () => {
+    expect(result('/missing')).toMatchObject({
+      status: 404,
+      method: 'GET',
+      broken: true,
+    });
+    expect(result('/new')).toMatchObject({
+      status: 200,
+      method: 'HEAD',
+      broken: false,
+      redirected: false,
+      slow: false,
+    });
+  });
+
+  test('follows every redirect of a link', () => {
+    const { port } = server.address() as AddressInfo;
+    expect(result('/old')).toMatchObject({
+      status: 200,
+      broken: false,
+      redirected: true,
+      redirects: [
+        `http://127.0.0.1:${port}/older`,
+        `http://127.0.0.1:${port}/new`,
+      ],
+    });
+  });
+
+  test('retries with GET when HEAD is not allowed', () => {
+    expect(result('/get-only')).toMatchObject({
+      status: 200,
+      method: 'GET',
+      broken: false,
+    });
+  });
+
+  test('reports the links taking longer than the threshold as slow', () => {
+    expect(result('/slow')).toMatchObject({
+      status: 200,
+      broken: false,
+      slow: true,
+    });
+  });
+
+  test('groups the problems by note', () => {
+    expect(
+      report.byNote.map(({ note, results }) => [
+        note.path,
+        results.map(item => new URL(item.url).pathname),
+      ])
+    ).toEqual([
+      ['broken', ['/missing']],
+      ['moved', ['/old']],
+      ['slow', ['/slow']],
+    ]);
+  });
+});
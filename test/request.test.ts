@@ -0,0 +1,79 @@
+/**
+ * @jest-environment ./test/fetch-environment.js
+ */
+import { TimeoutError } from '../src/errors';
+import { createRequest } from '../src/request';
+
+const retry = { minDelay: 1, maxDelay: 10 };
+
+function stubFetch(...results: Array<() => Response | Promise<Response>>) {
+  const calls: RequestInit[] = [];
+  const fetch = async (_url: RequestInfo, init: RequestInit = {}) => {
+    calls.push(init);
+    const result = results[Math.min(calls.length, results.length) - 1];
+    return await result();
+  };
+  return { calls, fetch: fetch as typeof globalThis.fetch };
+}
+
+describe('createRequest', () => {
+  test('retries a GET on 5xx and network errors', async () => {
+    const { calls, fetch } = stubFetch(
+      () => new Response('unavailable', { status: 503 }),
+      () => Promise.reject(new TypeError('Network error')),
+      () => new Response('ok')
+    );
+    const request = createRequest({ fetch, retry });
+    const response = await request('/sites.json');
+    expect(await response.text()).toBe('ok');
+    expect(calls).toHaveLength(3);
+  });
+
+  test('does not retry a POST', async () => {
+    const { calls, fetch } = stubFetch(
+      () => new Response('unavailable', { status: 503 })
+    );
+    const request = createRequest({ fetch, retry });
+    await expect(
+      request('/sites/1/notes', { method: 'POST', body: '{}' })
+    ).rejects.toMatchObject({ name: 'ServerError', status: 503 });
+    expect(calls).toHaveLength(1);
+  });
+
+  test('discards the body of a response before retrying it', async () => {
+    const cancel = jest.fn(() => Promise.resolve());
+    const failed = new Response('unavailable', { status: 503 });
+    Object.defineProperty(failed, 'body', { value: { cancel } });
+    const { fetch } = stubFetch(
+      () => failed,
+      () => new Response('ok')
+    );
+    await createRequest({ fetch, retry })('/sites.json');
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects with a TimeoutError when a request takes too long', async () => {
+    const { fetch } = stubFetch(
+      () => new Promise<Response>(() => {})
+    );
+    const request = createRequest({
+      fetch,
+      timeout: 10,
+      retry: { retries: 0 },
+    });
+    const error = await request('/sites.json').catch(error => error);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toMatchObject({ method: 'GET', timeout: 10 });
+  });
+
+  test('rejects an already aborted signal without sending it', async () => {
+    const { calls, fetch } = stubFetch(() => new Response('ok'));
+    const controller = new AbortController();
+    controller.abort();
+    const request = createRequest({ fetch, retry });
+    await expect(
+      request('/sites.json', { signal: controller.signal })
+    ).rejects.toMatchObject({ name: 'AbortError' });
+    expect(calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * @jest-environment ./test/fetch-environment.js
+ */
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createFakeAPI, createFakeClient } from '../src/index';
+import { syncDirectory } from '../src/sync';
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(join(tmpdir(), 'collected-notes-sync-'));
+});
+
+afterEach(async () => {
+  for (const name of await fs.readdir(dir)) await fs.unlink(join(dir, name));
+  await fs.rmdir(dir);
+});
+
+describe('syncDirectory', () => {
+  test('creates a note with the path of another file only once', async () => {
+    const api = createFakeAPI();
+    const client = createFakeClient(api);
+
+    // the note of hello.md is deleted and its path can be used again
+    await fs.writeFile(join(dir, 'hello.md'), '# Hello\n\nOld', 'utf8');
+    await syncDirectory(client, 'test', dir);
+    await client.destroy('test', 'hello');
+
+    await fs.writeFile(join(dir, 'draft.md'), '# Hello\n\nNew', 'utf8');
+    const first = await syncDirectory(client, 'test', dir);
+    expect(first.conflicts).toMatchObject([
+      { type: 'conflict', path: 'hello', file: join(dir, 'hello.md') },
+    ]);
+    expect(api.notes().map(note => note.body)).toEqual(['# Hello\n\nNew']);
+
+    const second = await syncDirectory(client, 'test', dir);
+    expect(second.actions).toMatchObject([
+      { type: 'conflict', path: 'hello', file: join(dir, 'hello.md') },
+    ]);
+    expect(api.notes()).toHaveLength(1);
+    expect((await fs.readdir(dir)).sort()).toEqual([
+      '.collected-notes-sync.json',
+      'draft.md',
+      'hello.md',
+    ]);
+  });
+
+  test('pushes the changes of a file kept with another name', async () => {
+    const api = createFakeAPI();
+    const client = createFakeClient(api);
+
+    await fs.writeFile(join(dir, 'hello.md'), '# Hello\n\nOld', 'utf8');
+    await syncDirectory(client, 'test', dir);
+    await client.destroy('test', 'hello');
+    await fs.writeFile(join(dir, 'draft.md'), '# Hello\n\nNew', 'utf8');
+    await syncDirectory(client, 'test', dir);
+
+    await fs.writeFile(join(dir, 'draft.md'), '# Hello\n\nChanged', 'utf8');
+    const { actions } = await syncDirectory(client, 'test', dir);
+    expect(actions).toContainEqual(
+      expect.objectContaining({
+        type: 'push',
+        path: 'hello',
+        file: join(dir, 'draft.md'),
+        applied: true,
+      })
+    );
+    expect(api.notes().map(note => note.body)).toEqual(['# Hello\n\nChanged']);
+  });
+});
@@ -0,0 +1,66 @@
+'use strict';
+
+const fs = require('fs');
+const path = require('path');
+
+const mainEntry = path.resolve(__dirname, 'src/index');
+const nodeEntry = path.resolve(__dirname, 'src/node.ts');
+
+function withoutExtension(file) {
+  return file.replace(/\.tsx?$/, '');
+}
+
+// the Node.js entry imports the main one instead of bundling it again, so
+// both share the same error classes and `instanceof` keeps working
+function isMainEntry(id, importer) {
+  const file =
+    importer && id.startsWith('.')
+      ? path.resolve(path.dirname(importer), id)
+      : id;
+  return withoutExtension(file) === mainEntry;
+}
+
+module.exports = {
+  rollup(config, options) {
+    if (path.resolve(options.input) !== nodeEntry) return config;
+
+    const external = config.external;
+    const isCJS = options.format === 'cjs';
+    const distDir = path.dirname(config.output.file);
+
+    return {
+      ...config,
+      external: (id, importer, isResolved) =>
+        isMainEntry(id, importer) || external(id, importer, isResolved),
+      output: {
+        ...config.output,
+        file: config.output.file.replace(/collected-notes\.([^/]+)$/, 'node.$1'),
+        paths: id =>
+          isMainEntry(id)
+            ? isCJS
+              ? './index.js'
+              : './collected-notes.esm.js'
+            : id,
+      },
+      plugins: [
+        ...config.plugins,
+        isCJS && {
+          name: 'node-entry-file',
+          writeBundle() {
+            fs.writeFileSync(
+              path.join(distDir, 'node.js'),
+              `'use strict'
+
+if (process.env.NODE_ENV === 'production') {
+  module.exports = require('./node.cjs.production.min.js')
+} else {
+  module.exports = require('./node.cjs.development.js')
+}
+`
+            );
+          },
+        },
+      ].filter(Boolean),
+    };
+  },
+};